@@ -1,204 +1,283 @@
-import { useState } from 'react'
-import { Search, Package, TrendingUp, AlertCircle, Loader2 } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { Search, Package, AlertCircle, Loader2, List, Upload } from 'lucide-react'
 import { Button } from './components/ui/button'
 import { Input } from './components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './components/ui/card'
-import { Alert, AlertDescription } from './components/ui/alert'
-import { Badge } from './components/ui/badge'
-
-interface SalesRankData {
-  asin: string
-  title?: string
-  salesRank?: number
-  category?: string
-  price?: number
-  availability?: string
-  lowestBuyboxPrice30Days?: number
-  lowestBuyboxPriceDate?: string
-  priceSource?: string
-  lastUpdated?: string
-}
+import { Alert, AlertDescription, AlertTitle } from './components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './components/ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs'
+import { Textarea } from './components/ui/textarea'
+import { Checkbox } from './components/ui/checkbox'
+import { BestSellersBrowser } from './components/best-sellers-browser'
+import { BulkResultsTable } from './components/bulk-results-table'
+import { CodeMatchPicker } from './components/code-match-picker'
+import { CompareView } from './components/compare-view'
+import { DealsFeed } from './components/deals-feed'
+import { ProductFinder } from './components/product-finder'
+import { ResultCard } from './components/result-card'
+import { SeasonalityView } from './components/seasonality-view'
+import { SellerLookup } from './components/seller-lookup'
+import { TokenStatus } from './components/token-status'
+import { VariationExplorer } from './components/variation-explorer'
+import { useKeepaTokens } from './hooks/use-keepa-tokens'
+import { formatASIN, parseAmazonUrl, parseAsinList, validateASIN } from './lib/asin'
+import { resolveCategoryNames } from './lib/categories'
+import { createBulkRows, runBulkLookup, type BulkRow } from './lib/bulk-lookup'
+import { KEEPA_MAX_ASINS_PER_REQUEST, KeepaClient } from './lib/keepa/client'
+import { KeepaProductNotFoundError, describeError } from './lib/keepa/errors'
+import { DEFAULT_DOMAIN_ID, KEEPA_MARKETPLACES } from './lib/keepa/domains'
+import type { KeepaProduct } from './lib/keepa/schemas'
+import { estimateProductCost, formatWait, getSharedScheduler } from './lib/keepa/tokens'
+import { DEFAULT_LOOKBACK, LOOKBACK_WINDOWS, lookbackDays, lookbackStart, parseLookback, type LookbackWindow } from './lib/lookback'
+import { DEFAULT_OFFER_COUNT, fetchProductSellers } from './lib/offers'
+import { looksLikeProductCode, parseProductCode, resolveProductCodes, type ProductCode } from './lib/product-codes'
+import { buildSalesRankData, hasProductData, type SalesRankData } from './lib/sales-rank'
+
+type LookupMode = 'single' | 'bulk'
+type AppPage = 'lookup' | 'finder' | 'best-sellers' | 'deals' | 'sellers' | 'compare'
 
 function App() {
   const [asin, setAsin] = useState('')
   const [apiKey, setApiKey] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
+  const [errorGuidance, setErrorGuidance] = useState('')
   const [result, setResult] = useState<SalesRankData | null>(null)
+  const [resultProduct, setResultProduct] = useState<KeepaProduct | null>(null)
+  const [codeMatches, setCodeMatches] = useState<{ code: ProductCode, products: KeepaProduct[] } | null>(null)
+  const [includeOffers, setIncludeOffers] = useState(false)
+  const [includeBuyBox, setIncludeBuyBox] = useState(false)
+  const [lookback, setLookback] = useState<LookbackWindow>(DEFAULT_LOOKBACK)
+  const [domainId, setDomainId] = useState(DEFAULT_DOMAIN_ID)
 
-  const validateASIN = (asin: string): boolean => {
-    // ASIN is typically 10 characters, alphanumeric
-    const asinRegex = /^[A-Z0-9]{10}$/
-    return asinRegex.test(asin.toUpperCase())
-  }
+  const [page, setPage] = useState<AppPage>('lookup')
+  const [mode, setMode] = useState<LookupMode>('single')
+  const [bulkText, setBulkText] = useState('')
+  const [bulkRows, setBulkRows] = useState<BulkRow[] | null>(null)
+
+  const [refreshingTokens, setRefreshingTokens] = useState(false)
 
-  const formatASIN = (input: string): string => {
-    return input.toUpperCase().replace(/[^A-Z0-9]/g, '')
+  const scheduler = useMemo(() => getSharedScheduler(apiKey.trim()), [apiKey])
+  const client = useMemo(() => new KeepaClient({ apiKey, scheduler }), [apiKey, scheduler])
+  const tokens = useKeepaTokens(scheduler)
+
+  const bulkSummary = parseAsinList(bulkText)
+  const estimatedCost = mode === 'bulk'
+    ? estimateProductCost({ asinCount: bulkSummary.valid.length + bulkSummary.codes.length })
+    : estimateProductCost({ asinCount: 1, offers: includeOffers ? DEFAULT_OFFER_COUNT : undefined, buybox: includeBuyBox })
+  const estimatedWait = scheduler.waitTimeFor(estimatedCost + tokens.queuedCost)
+
+  const showError = (err: unknown, fallback = 'Failed to fetch data from Keepa API') => {
+    const { message, guidance } = describeError(err, fallback)
+    setError(message)
+    setErrorGuidance(guidance ?? '')
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
+  const clearOutput = () => {
     setError('')
+    setErrorGuidance('')
     setResult(null)
+    setResultProduct(null)
+    setCodeMatches(null)
+    setBulkRows(null)
+  }
 
-    const formattedASIN = formatASIN(asin)
-    
-    if (!formattedASIN) {
-      setError('Please enter an ASIN')
+  const handleRefreshTokens = async () => {
+    if (!apiKey.trim()) {
+      showError('Please enter your Keepa API key')
       return
     }
+    setRefreshingTokens(true)
+    try {
+      await client.getTokenStatus()
+    } catch (err) {
+      showError(err, 'Failed to fetch token status from Keepa API')
+    } finally {
+      setRefreshingTokens(false)
+    }
+  }
+
+  // A pasted product link is reduced to its ASIN, and its marketplace is selected if Keepa covers it
+  const handleAsinChange = (value: string) => {
+    const parsed = parseAmazonUrl(value)
+    setAsin(parsed?.asin ?? value)
+    if (parsed?.domainId !== undefined) {
+      setDomainId(parsed.domainId)
+    }
+  }
+
+  const handleBulkFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    const text = await file.text()
+    setBulkText((current) => (current.trim() ? `${current}\n${text}` : text))
+    e.target.value = ''
+  }
+
+  const runBulk = async (text: string, bulkDomainId: number) => {
+    const rows = createBulkRows(text)
+    setBulkRows(rows)
+    setLoading(true)
+
+    try {
+      await runBulkLookup(client, rows, { domainId: bulkDomainId, lookback, onProgress: setBulkRows })
+    } catch (err) {
+      showError(err)
+    } finally {
+      setLoading(false)
+    }
+  }
 
-    if (!validateASIN(formattedASIN)) {
-      setError('Please enter a valid 10-character ASIN')
+  const handleBulkSubmit = async () => {
+    if (!bulkText.trim()) {
+      showError('Please paste or upload a list of ASINs')
       return
     }
 
     if (!apiKey.trim()) {
-      setError('Please enter your Keepa API key')
+      showError('Please enter your Keepa API key')
       return
     }
 
+    await runBulk(bulkText, domainId)
+  }
+
+  // Discovered ASINs run through the regular bulk lookup, on the marketplace they were found on
+  const handleCheckAsins = async (asins: string[], resultDomainId: number) => {
+    const text = asins.join('\n')
+    clearOutput()
+    setPage('lookup')
+    setMode('bulk')
+    setDomainId(resultDomainId)
+    setBulkText(text)
+    await runBulk(text, resultDomainId)
+  }
+
+  const productRequest = (lookupDomainId: number) => ({
+    domain: lookupDomainId,
+    since: lookbackStart(lookback),
+    stats: lookbackDays(lookback),
+    offers: includeOffers ? DEFAULT_OFFER_COUNT : undefined,
+    buybox: includeBuyBox,
+  })
+
+  const showProduct = async (product: KeepaProduct, productCode?: ProductCode) => {
+    // Missing seller or category names shouldn't sink the whole lookup
+    const sellers = includeOffers || includeBuyBox
+      ? await fetchProductSellers(client, product).catch(() => undefined)
+      : undefined
+    const categoryNames = await resolveCategoryNames(client, product).catch(() => undefined)
+
+    setResult(buildSalesRankData(product.asin, product, lookback, { sellers, categoryNames, productCode }))
+    setResultProduct(product)
+  }
+
+  const runSingle = async (formattedASIN: string, lookupDomainId: number) => {
     setLoading(true)
 
     try {
-      // Keepa API endpoint for product data with history parameter for last 30 days
-      // Keepa time is in minutes since their epoch (Jan 1, 2011, 00:00 UTC)
-      const keepaEpochStart = new Date('2011-01-01T00:00:00.000Z').getTime()
-      const thirtyDaysAgo = Math.floor((Date.now() - (30 * 24 * 60 * 60 * 1000) - keepaEpochStart) / 60000)
-      const response = await fetch(`https://api.keepa.com/product?key=${apiKey}&domain=1&asin=${formattedASIN}&history=1&since=${thirtyDaysAgo}`)
-      
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status}`)
+      const product = await client.getProduct(formattedASIN, productRequest(lookupDomainId))
+      if (!hasProductData(product)) {
+        throw new KeepaProductNotFoundError(formattedASIN)
       }
+      await showProduct(product)
+    } catch (err) {
+      showError(err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // A code can match several ASINs (bundles, variations, relistings); the user picks one
+  const runCode = async (code: ProductCode, lookupDomainId: number) => {
+    setLoading(true)
 
-      const data = await response.json()
-      
-      if (data.products && data.products.length > 0) {
-        const product = data.products[0]
-        
-        // Extract sales rank data (Keepa stores historical data in arrays)
-        // csv[3] = Sales rank in main category, csv[4] = Sales rank in subcategory
-        const salesRankHistories = [product.csv?.[3], product.csv?.[4]] // Try main category first, then subcategory
-        let currentSalesRank = null
-        
-        for (const salesRankHistory of salesRankHistories) {
-          if (salesRankHistory && salesRankHistory.length > 0) {
-            // Get the most recent sales rank (last non-null value)
-            // Data is stored as [timestamp, value, timestamp, value, ...]
-            for (let i = salesRankHistory.length - 1; i >= 1; i -= 2) {
-              const rank = salesRankHistory[i]
-              if (rank !== -1 && rank != null && rank > 0) {
-                currentSalesRank = rank
-                break
-              }
-            }
-            if (currentSalesRank) break // Use first available rank
-          }
-        }
-
-        // Extract price history - try multiple price types
-        // csv[1] = Amazon price, csv[2] = New price, csv[3] = Used price, csv[18] = Buy Box price
-        const priceHistories = [
-          { data: product.csv?.[1], type: 'Amazon' },      // Amazon price
-          { data: product.csv?.[18], type: 'Buy Box' },    // Buy Box price  
-          { data: product.csv?.[2], type: 'New' },         // New price
-        ]
-        
-        let lowestBuyboxPrice30Days = null
-        let lowestBuyboxPriceDate = null
-        let priceSource = null
-        
-        // Debug: log available price data
-        console.log('Available price data:', {
-          amazon: product.csv?.[1]?.length || 0,
-          buybox: product.csv?.[18]?.length || 0,
-          new: product.csv?.[2]?.length || 0,
-          thirtyDaysAgo
-        })
-        
-        for (const priceHistory of priceHistories) {
-          if (priceHistory.data && priceHistory.data.length > 0) {
-            let lowestPrice = Infinity
-            let lowestPriceTimestamp = null
-            let validPricesFound = 0
-            
-            // Iterate through price history (timestamp, price pairs)
-            for (let i = 0; i < priceHistory.data.length; i += 2) {
-              const timestamp = priceHistory.data[i]
-              const price = priceHistory.data[i + 1]
-              
-              // Check if price is valid (not -1 and greater than 0)
-              if (price !== -1 && price != null && price > 0) {
-                validPricesFound++
-                
-                // For now, let's consider ALL valid prices, not just last 30 days
-                // This will help us debug if the timestamp filtering is the issue
-                if (price < lowestPrice) {
-                  lowestPrice = price
-                  lowestPriceTimestamp = timestamp
-                }
-              }
-            }
-            
-            console.log(`${priceHistory.type} price history:`, {
-              totalDataPoints: priceHistory.data.length / 2,
-              validPricesFound,
-              lowestPrice: lowestPrice === Infinity ? null : lowestPrice / 100
-            })
-            
-            if (lowestPrice !== Infinity) {
-              lowestBuyboxPrice30Days = lowestPrice / 100 // Convert from cents to dollars
-              priceSource = priceHistory.type
-              // Convert Keepa timestamp to readable date
-              const keepaEpochStart = new Date('2011-01-01T00:00:00.000Z').getTime()
-              lowestBuyboxPriceDate = new Date(keepaEpochStart + (lowestPriceTimestamp * 60000)).toLocaleDateString()
-              break // Use the first available price type
-            }
-          }
-        }
-
-        // Get current price from the most recent data point
-        let currentPrice = null
-        const currentPriceHistories = [product.csv?.[1], product.csv?.[18], product.csv?.[2]] // Amazon, Buy Box, New
-        
-        for (const priceData of currentPriceHistories) {
-          if (priceData && priceData.length >= 2) {
-            const lastPrice = priceData[priceData.length - 1]
-            if (lastPrice !== -1 && lastPrice != null && lastPrice > 0) {
-              currentPrice = lastPrice / 100
-              break
-            }
-          }
-        }
-
-        setResult({
-          asin: formattedASIN,
-          title: product.title || 'Product Title Not Available',
-          salesRank: currentSalesRank,
-          category: product.categoryTree?.[0]?.name || 'Category Not Available',
-          price: currentPrice,
-          availability: product.availabilityAmazon >= 0 ? 'In Stock' : 'Availability Unknown',
-          lowestBuyboxPrice30Days,
-          lowestBuyboxPriceDate,
-          priceSource,
-          lastUpdated: new Date().toLocaleString()
-        })
+    try {
+      const matches = await resolveProductCodes(client, [code.code], productRequest(lookupDomainId))
+      const products = (matches.get(code.code) ?? []).filter(hasProductData)
+      if (products.length === 0) {
+        showError(`No Amazon product matches ${code.kind} ${code.code}`)
+      } else if (products.length === 1) {
+        await showProduct(products[0], code)
       } else {
-        setError('Product not found or invalid ASIN')
+        setCodeMatches({ code, products })
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch data from Keepa API')
+      showError(err)
     } finally {
       setLoading(false)
     }
   }
 
+  const handlePickMatch = async (product: KeepaProduct) => {
+    if (!codeMatches) return
+    const { code } = codeMatches
+    setCodeMatches(null)
+    setLoading(true)
+    try {
+      await showProduct(product, code)
+    } catch (err) {
+      showError(err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Deals and variations open as a regular single lookup, on the marketplace they came from
+  const handleOpenAsin = async (openAsin: string, openDomainId: number) => {
+    clearOutput()
+    setPage('lookup')
+    setMode('single')
+    setDomainId(openDomainId)
+    setAsin(openAsin)
+    await runSingle(openAsin, openDomainId)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    clearOutput()
+
+    if (mode === 'bulk') {
+      await handleBulkSubmit()
+      return
+    }
+
+    const formattedASIN = formatASIN(asin)
+    const code = parseProductCode(asin)
+    
+    if (!formattedASIN) {
+      showError('Please enter an ASIN, UPC or EAN')
+      return
+    }
+
+    if (!code && looksLikeProductCode(asin)) {
+      showError('That UPC/EAN has an invalid check digit, so it probably has a typo')
+      return
+    }
+
+    if (!code && !validateASIN(formattedASIN)) {
+      showError('Please enter a valid 10-character ASIN, 12-digit UPC or 13-digit EAN')
+      return
+    }
+
+    if (!apiKey.trim()) {
+      showError('Please enter your Keepa API key')
+      return
+    }
+
+    if (code) {
+      await runCode(code, domainId)
+    } else {
+      await runSingle(formattedASIN, domainId)
+    }
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
       {/* Header */}
       <header className="bg-white border-b border-gray-200 shadow-sm">
         <div className="max-w-4xl mx-auto px-4 py-6">
-          <div className="flex items-center gap-3">
+          <div className="flex flex-wrap items-center gap-3">
             <div className="p-2 bg-primary/10 rounded-lg">
               <Package className="h-6 w-6 text-primary" />
             </div>
@@ -206,179 +285,321 @@ function App() {
               <h1 className="text-2xl font-bold text-gray-900">Amazon ASIN Sales Rank Checker</h1>
               <p className="text-gray-600">Get real-time sales rank data using Keepa API</p>
             </div>
+            <div className="md:ml-auto">
+              <TokenStatus tokens={tokens} refreshing={refreshingTokens} onRefresh={handleRefreshTokens} />
+            </div>
           </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="max-w-4xl mx-auto px-4 py-8">
-        {/* Input Form */}
+        {/* Keepa Settings */}
         <Card className="mb-8">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Search className="h-5 w-5" />
-              Product Lookup
-            </CardTitle>
-            <CardDescription>
-              Enter an Amazon ASIN and your Keepa API key to retrieve sales rank and pricing information
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <label htmlFor="asin" className="text-sm font-medium text-gray-700">
-                    Amazon ASIN
-                  </label>
-                  <Input
-                    id="asin"
-                    type="text"
-                    placeholder="e.g., B08N5WRWNW"
-                    value={asin}
-                    onChange={(e) => setAsin(e.target.value)}
-                    className="font-mono"
-                    maxLength={10}
-                  />
-                  <p className="text-xs text-gray-500">
-                    10-character alphanumeric product identifier
-                  </p>
-                </div>
-                
-                <div className="space-y-2">
-                  <label htmlFor="apiKey" className="text-sm font-medium text-gray-700">
-                    Keepa API Key
-                  </label>
-                  <Input
-                    id="apiKey"
-                    type="password"
-                    placeholder="Your Keepa API key"
-                    value={apiKey}
-                    onChange={(e) => setApiKey(e.target.value)}
-                  />
-                  <p className="text-xs text-gray-500">
-                    Get your API key from <a href="https://keepa.com/#!api" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">keepa.com</a>
-                  </p>
-                </div>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label htmlFor="apiKey" className="text-sm font-medium text-gray-700">
+                  Keepa API Key
+                </label>
+                <Input
+                  id="apiKey"
+                  type="password"
+                  placeholder="Your Keepa API key"
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                />
+                <p className="text-xs text-gray-500">
+                  Get your API key from <a href="https://keepa.com/#!api" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">keepa.com</a>
+                </p>
               </div>
 
-              <Button 
-                type="submit" 
-                disabled={loading}
-                className="w-full md:w-auto"
-              >
-                {loading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Fetching Data...
-                  </>
-                ) : (
-                  <>
-                    <Search className="mr-2 h-4 w-4" />
-                    Check Sales Rank
-                  </>
-                )}
-              </Button>
-            </form>
+              <div className="space-y-2">
+                <label htmlFor="marketplace" className="text-sm font-medium text-gray-700">
+                  Marketplace
+                </label>
+                <Select value={String(domainId)} onValueChange={(value) => setDomainId(Number(value))}>
+                  <SelectTrigger id="marketplace">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {KEEPA_MARKETPLACES.map((marketplace) => (
+                      <SelectItem key={marketplace.domainId} value={String(marketplace.domainId)}>
+                        {marketplace.host} ({marketplace.currency})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">
+                  Amazon site to look the product up on
+                </p>
+              </div>
+            </div>
           </CardContent>
         </Card>
 
+        <Tabs value={page} onValueChange={(value) => setPage(value as AppPage)}>
+          <TabsList className="mb-4 h-auto flex-wrap">
+            <TabsTrigger value="lookup">Lookup</TabsTrigger>
+            <TabsTrigger value="finder">Product Finder</TabsTrigger>
+            <TabsTrigger value="best-sellers">Best Sellers</TabsTrigger>
+            <TabsTrigger value="deals">Deals</TabsTrigger>
+            <TabsTrigger value="sellers">Sellers</TabsTrigger>
+            <TabsTrigger value="compare">Compare</TabsTrigger>
+          </TabsList>
+
+          {/* Input Form */}
+          <TabsContent value="lookup" className="mt-0">
+            <Card className="mb-8">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Search className="h-5 w-5" />
+                  Product Lookup
+                </CardTitle>
+                <CardDescription>
+                  Enter an Amazon ASIN, or a whole list of them, to retrieve sales rank and pricing information
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs value={mode} onValueChange={(value) => setMode(value as LookupMode)}>
+                  <TabsList className="mb-4">
+                    <TabsTrigger value="single">Single ASIN</TabsTrigger>
+                    <TabsTrigger value="bulk">Bulk Lookup</TabsTrigger>
+                  </TabsList>
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <TabsContent value="bulk" className="mt-0 space-y-2 md:col-span-2">
+                        <div className="flex items-center justify-between">
+                          <label htmlFor="bulkAsins" className="text-sm font-medium text-gray-700">
+                            ASIN List
+                          </label>
+                          <label className="inline-flex items-center gap-1 text-xs text-primary cursor-pointer hover:underline">
+                            <Upload className="h-3 w-3" />
+                            Upload .txt / .csv
+                            <input type="file" accept=".txt,.csv,text/plain,text/csv" className="hidden" onChange={handleBulkFile} />
+                          </label>
+                        </div>
+                        <Textarea
+                          id="bulkAsins"
+                          placeholder={'B08N5WRWNW\nB07FZ8S74R, B09B8V1LZ3'}
+                          value={bulkText}
+                          onChange={(e) => setBulkText(e.target.value)}
+                          className="font-mono min-h-32"
+                        />
+                        <p className="text-xs text-gray-500">
+                          {bulkSummary.valid.length} unique ASINs
+                          {bulkSummary.codes.length > 0 && `, ${bulkSummary.codes.length} UPC/EAN codes`}
+                          {bulkSummary.invalid.length > 0 && `, ${bulkSummary.invalid.length} invalid`}
+                          {bulkSummary.duplicates > 0 && `, ${bulkSummary.duplicates} duplicates removed`}
+                          {' '}· fetched {KEEPA_MAX_ASINS_PER_REQUEST} per Keepa request
+                        </p>
+                      </TabsContent>
+
+                      <TabsContent value="single" className="mt-0 space-y-2">
+                        <label htmlFor="asin" className="text-sm font-medium text-gray-700">
+                          Amazon ASIN, UPC or EAN
+                        </label>
+                        <Input
+                          id="asin"
+                          type="text"
+                          placeholder="e.g., B08N5WRWNW or 012345678905"
+                          value={asin}
+                          onChange={(e) => handleAsinChange(e.target.value)}
+                          className="font-mono"
+                        />
+                        <p className="text-xs text-gray-500">
+                          10-character ASIN, 12-digit UPC, or 13-digit EAN/ISBN. Pasting an Amazon product link fills in the ASIN and marketplace.
+                        </p>
+                        <div className="flex items-center gap-2 pt-1">
+                          <Checkbox
+                            id="includeOffers"
+                            checked={includeOffers}
+                            onCheckedChange={(checked) => setIncludeOffers(checked === true)}
+                          />
+                          <label htmlFor="includeOffers" className="text-sm text-gray-700">
+                            Include live seller offers
+                          </label>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id="includeBuyBox"
+                            checked={includeBuyBox}
+                            onCheckedChange={(checked) => setIncludeBuyBox(checked === true)}
+                          />
+                          <label htmlFor="includeBuyBox" className="text-sm text-gray-700">
+                            Include Buy Box history and seller share
+                          </label>
+                        </div>
+                      </TabsContent>
+                    
+                      <div className="space-y-2">
+                        <label htmlFor="lookback" className="text-sm font-medium text-gray-700">
+                          Price Window
+                        </label>
+                        <Select value={String(lookback)} onValueChange={(value) => setLookback(parseLookback(value))}>
+                          <SelectTrigger id="lookback">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {LOOKBACK_WINDOWS.map((option) => (
+                              <SelectItem key={option.value} value={String(option.value)}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-gray-500">
+                          Period used for the low, high, average and median price
+                        </p>
+                      </div>
+                    </div>
+
+                    <Button 
+                      type="submit" 
+                      disabled={loading}
+                      className="w-full md:w-auto"
+                    >
+                      {loading ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          {tokens.queued > 0 && scheduler.waitTimeFor(tokens.queuedCost) > 0 ? 'Waiting for Tokens...' : 'Fetching Data...'}
+                        </>
+                      ) : (
+                        <>
+                          <Search className="mr-2 h-4 w-4" />
+                          {mode === 'bulk' ? 'Check All ASINs' : 'Check Sales Rank'}
+                        </>
+                      )}
+                    </Button>
+                    <p className="text-xs text-gray-500">
+                      Estimated cost: {estimatedCost} {estimatedCost === 1 ? 'token' : 'tokens'}
+                      {estimatedWait === Infinity
+                        ? ' · more than this key has, and it has no refill'
+                        : estimatedWait > 0 && ` · will wait about ${formatWait(estimatedWait)} for tokens to refill`}
+                    </p>
+                  </form>
+                </Tabs>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Discovery pages stay mounted so their filters and results survive switching tabs */}
+          <TabsContent value="finder" forceMount className="mt-0 data-[state=inactive]:hidden">
+            <ProductFinder
+              client={client}
+              domainId={domainId}
+              hasApiKey={apiKey.trim() !== ''}
+              onError={showError}
+              onResults={handleCheckAsins}
+            />
+          </TabsContent>
+
+          <TabsContent value="best-sellers" forceMount className="mt-0 data-[state=inactive]:hidden">
+            <BestSellersBrowser
+              client={client}
+              domainId={domainId}
+              lookback={lookback}
+              hasApiKey={apiKey.trim() !== ''}
+              onError={showError}
+            />
+          </TabsContent>
+
+          <TabsContent value="deals" forceMount className="mt-0 data-[state=inactive]:hidden">
+            <DealsFeed
+              client={client}
+              domainId={domainId}
+              hasApiKey={apiKey.trim() !== ''}
+              onError={showError}
+              onOpen={handleOpenAsin}
+            />
+          </TabsContent>
+
+          <TabsContent value="sellers" forceMount className="mt-0 data-[state=inactive]:hidden">
+            <SellerLookup
+              client={client}
+              domainId={domainId}
+              hasApiKey={apiKey.trim() !== ''}
+              onError={showError}
+              onCheckAsins={handleCheckAsins}
+            />
+          </TabsContent>
+
+          <TabsContent value="compare" forceMount className="mt-0 data-[state=inactive]:hidden">
+            <CompareView
+              client={client}
+              domainId={domainId}
+              lookback={lookback}
+              hasApiKey={apiKey.trim() !== ''}
+              onError={showError}
+              onOpen={handleOpenAsin}
+            />
+          </TabsContent>
+        </Tabs>
+
         {/* Error Display */}
         {error && (
           <Alert variant="destructive" className="mb-8">
             <AlertCircle className="h-4 w-4" />
-            <AlertDescription>{error}</AlertDescription>
+            <AlertTitle>{error}</AlertTitle>
+            {errorGuidance && <AlertDescription>{errorGuidance}</AlertDescription>}
           </Alert>
         )}
 
-        {/* Results Display */}
-        {result && (
-          <Card className="animate-slide-up">
+        {/* Bulk Results */}
+        {bulkRows && (
+          <Card className="mb-8 animate-slide-up">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
-                <TrendingUp className="h-5 w-5" />
-                Sales Rank & Pricing Results
+                <List className="h-5 w-5" />
+                Bulk Results
               </CardTitle>
               <CardDescription>
-                Data retrieved for ASIN: <span className="font-mono font-medium">{result.asin}</span>
+                {bulkRows.filter((row) => row.status === 'ok').length} of {bulkRows.length} entries found
+                {loading && ` · ${bulkRows.filter((row) => row.status === 'pending').length} still loading`}
               </CardDescription>
             </CardHeader>
-            <CardContent className="space-y-6">
-              {/* Product Title */}
-              <div>
-                <h3 className="font-semibold text-gray-900 mb-2">Product Title</h3>
-                <p className="text-gray-700">{result.title}</p>
-              </div>
-
-              {/* Key Metrics */}
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                <div className="p-4 bg-primary/5 rounded-lg border border-primary/20">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="text-sm font-medium text-gray-600">Sales Rank</p>
-                      <p className="text-2xl font-bold text-primary">
-                        {result.salesRank ? `#${result.salesRank.toLocaleString()}` : 'N/A'}
-                      </p>
-                    </div>
-                    <TrendingUp className="h-8 w-8 text-primary/60" />
-                  </div>
-                </div>
-
-                <div className="p-4 bg-accent/5 rounded-lg border border-accent/20">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="text-sm font-medium text-gray-600">Category</p>
-                      <p className="text-lg font-semibold text-accent">
-                        {result.category}
-                      </p>
-                    </div>
-                    <Package className="h-8 w-8 text-accent/60" />
-                  </div>
-                </div>
-
-                <div className="p-4 bg-green-50 rounded-lg border border-green-200">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="text-sm font-medium text-gray-600">Current Price</p>
-                      <p className="text-lg font-semibold text-green-700">
-                        {result.price ? `${result.price.toFixed(2)}` : 'N/A'}
-                      </p>
-                    </div>
-                    <Badge variant="secondary" className="bg-green-100 text-green-800">
-                      {result.availability}
-                    </Badge>
-                  </div>
-                </div>
-
-                <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
-                  <div>
-                    <p className="text-sm font-medium text-gray-600">Lowest Price (30 days)</p>
-                    <p className="text-lg font-semibold text-blue-700">
-                      {result.lowestBuyboxPrice30Days ? `${result.lowestBuyboxPrice30Days.toFixed(2)}` : 'N/A'}
-                    </p>
-                    {result.lowestBuyboxPriceDate && result.priceSource && (
-                      <p className="text-xs text-blue-600 mt-1">
-                        {result.priceSource} price on {result.lowestBuyboxPriceDate}
-                      </p>
-                    )}
-                    {result.lowestBuyboxPriceDate && !result.priceSource && (
-                      <p className="text-xs text-blue-600 mt-1">
-                        on {result.lowestBuyboxPriceDate}
-                      </p>
-                    )}
-                  </div>
-                </div>
-              </div>
-
-              {/* Additional Info */}
-              <div className="pt-4 border-t border-gray-200">
-                <p className="text-sm text-gray-500">
-                  Last updated: {result.lastUpdated}
-                </p>
-              </div>
+            <CardContent>
+              <BulkResultsTable rows={bulkRows} />
             </CardContent>
           </Card>
         )}
 
+        {/* Product Code Matches */}
+        {codeMatches && (
+          <CodeMatchPicker
+            code={codeMatches.code}
+            products={codeMatches.products}
+            lookback={lookback}
+            onPick={handlePickMatch}
+          />
+        )}
+
+        {/* Results Display */}
+        {result && (
+          <ResultCard key={`${result.domainId}:${result.asin}:${result.lookback}`} result={result} product={resultProduct} />
+        )}
+
+        {resultProduct && (
+          <VariationExplorer
+            key={`${resultProduct.domainId}:${resultProduct.asin}`}
+            client={client}
+            product={resultProduct}
+            lookback={lookback}
+            onError={showError}
+            onOpen={handleOpenAsin}
+          />
+        )}
+
+        {result && resultProduct && (
+          <SeasonalityView
+            key={`${result.domainId}:${result.asin}`}
+            client={client}
+            product={resultProduct}
+            lookback={result.lookback}
+            onError={showError}
+          />
+        )}
+
         {/* Info Section */}
         <Card className="mt-8 bg-blue-50 border-blue-200">
           <CardContent className="pt-6">
@@ -390,10 +611,19 @@ function App() {
                 <h3 className="font-semibold text-blue-900 mb-2">How to use this tool</h3>
                 <ul className="text-sm text-blue-800 space-y-1">
                   <li>• Find the ASIN on any Amazon product page (usually in the product details section)</li>
+                  <li>• A UPC, EAN or ISBN-13 works too; it is resolved to the matching ASIN(s) through Keepa</li>
                   <li>• Get a free Keepa API key from <a href="https://keepa.com/#!api" target="_blank" rel="noopener noreferrer" className="underline">keepa.com</a></li>
                   <li>• Enter both values above and click "Check Sales Rank"</li>
                   <li>• Sales rank indicates how well a product sells compared to others in its category</li>
-                  <li>• The tool also shows the lowest buybox price from the last 30 days for price tracking</li>
+                  <li>• The tool also shows the low, high, average and median price over the selected window for price tracking</li>
+                  <li>• Enter your unit, shipping and prep costs to see FBA profit, margin and ROI; they are remembered per ASIN</li>
+                  <li>• The result card charts the sales rank and Amazon, Buy Box, New, Used and List prices over the selected window; click the legend to toggle price series, and zoom with the brush or a date range to recompute the tiles</li>
+                  <li>• Use Product Finder to discover ASINs by category, rank, price and offers and check them all at once</li>
+                  <li>• Best Sellers lists a category's leaders with rank, price and estimated monthly sales</li>
+                  <li>• Deals shows recent price drops against each product's 30 and 90-day average; open any deal for full details</li>
+                  <li>• Sellers looks up a competitor's feedback and storefront, which you can bulk-check in one click</li>
+                  <li>• Seasonality overlays every year of Keepa's history on one Jan–Dec chart with a monthly index, e.g. to plan Q4 stock</li>
+                  <li>• Compare plots 2–8 competing ASINs on one rank or price chart and lines up their numbers side by side</li>
                 </ul>
               </div>
             </div>
@@ -0,0 +1,199 @@
+import { useState } from 'react'
+import { Loader2, Trophy } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Badge } from './ui/badge'
+import { useRootCategories } from '../hooks/use-root-categories'
+import { useSalesCurves } from '../hooks/use-sales-curves'
+import { BEST_SELLER_COUNTS, DEFAULT_BEST_SELLER_COUNT, fetchBestSellers } from '../lib/best-sellers'
+import { createPendingRows, runBulkLookup, type BulkRow } from '../lib/bulk-lookup'
+import { formatPrice } from '../lib/currency'
+import type { KeepaClient } from '../lib/keepa/client'
+import { getMarketplace } from '../lib/keepa/domains'
+import { BEST_SELLERS_COST, estimateProductCost } from '../lib/keepa/tokens'
+import type { LookbackWindow } from '../lib/lookback'
+import { estimateMonthlySales, formatUnits } from '../lib/sales-estimate'
+
+interface BestSellersBrowserProps {
+  client: KeepaClient
+  domainId: number
+  lookback: LookbackWindow
+  hasApiKey: boolean
+  onError: (err: unknown, fallback?: string) => void
+}
+
+export function BestSellersBrowser({ client, domainId, lookback, hasApiKey, onError }: BestSellersBrowserProps) {
+  const curves = useSalesCurves()
+  const roots = useRootCategories(client, domainId, onError)
+  const [rootCategory, setRootCategory] = useState('')
+  // A subcategory ID typed in by hand wins over the root picker
+  const [categoryId, setCategoryId] = useState('')
+  // Category IDs are per marketplace, so switching marketplace clears the picked one
+  const [categoryDomainId, setCategoryDomainId] = useState(domainId)
+  const [count, setCount] = useState<number>(DEFAULT_BEST_SELLER_COUNT)
+  const [loading, setLoading] = useState(false)
+  const [rows, setRows] = useState<BulkRow[] | null>(null)
+  const [lastUpdate, setLastUpdate] = useState<Date>()
+
+  if (categoryDomainId !== domainId) {
+    setCategoryDomainId(domainId)
+    setRootCategory('')
+    setCategoryId('')
+  }
+
+  const marketplace = getMarketplace(domainId)
+  const selectedCategory = categoryId.trim() || rootCategory
+  const estimatedCost = BEST_SELLERS_COST + estimateProductCost({ asinCount: count })
+
+  const handleLoad = async () => {
+    if (!hasApiKey) {
+      onError('Please enter your Keepa API key')
+      return
+    }
+    if (!/^\d+$/.test(selectedCategory)) {
+      onError('Please pick a category or enter a numeric category ID')
+      return
+    }
+
+    setLoading(true)
+    setRows(null)
+    try {
+      const list = await fetchBestSellers(client, domainId, Number(selectedCategory), count)
+      setLastUpdate(list.lastUpdate)
+      const pending = createPendingRows(list.asins)
+      setRows(pending)
+      await runBulkLookup(client, pending, { domainId, lookback, onProgress: setRows })
+    } catch (err) {
+      onError(err, 'Failed to load the Best Sellers list')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trophy className="h-5 w-5" />
+          Best Sellers
+        </CardTitle>
+        <CardDescription>
+          Scan the top sellers of a {marketplace.host} category with rank, price and estimated sales
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="bestSellersRoot" className="text-sm font-medium text-gray-700">
+              Root Category
+            </label>
+            <Select
+              value={rootCategory}
+              onValueChange={setRootCategory}
+              onOpenChange={(open) => open && hasApiKey && roots.load()}
+            >
+              <SelectTrigger id="bestSellersRoot">
+                <SelectValue placeholder={roots.loading ? 'Loading categories...' : 'Pick a category'} />
+              </SelectTrigger>
+              <SelectContent>
+                {roots.nodes.map((node) => (
+                  <SelectItem key={node.catId} value={String(node.catId)}>{node.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="bestSellersCategory" className="text-sm font-medium text-gray-700">
+              Or Category ID
+            </label>
+            <Input
+              id="bestSellersCategory"
+              inputMode="numeric"
+              placeholder="e.g., 281052"
+              value={categoryId}
+              onChange={(e) => setCategoryId(e.target.value)}
+              className="font-mono"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="bestSellersCount" className="text-sm font-medium text-gray-700">
+              Top
+            </label>
+            <Select value={String(count)} onValueChange={(value) => setCount(Number(value))}>
+              <SelectTrigger id="bestSellersCount">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BEST_SELLER_COUNTS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>{option} products</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button type="button" disabled={loading} onClick={handleLoad}>
+            {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trophy className="mr-2 h-4 w-4" />}
+            Load Best Sellers
+          </Button>
+          <p className="text-xs text-gray-500">
+            Estimated cost: {estimatedCost} tokens ({BEST_SELLERS_COST} for the list, 1 per product)
+            {lastUpdate && ` · list updated ${lastUpdate.toLocaleDateString()}`}
+          </p>
+        </div>
+
+        {rows && rows.length === 0 && (
+          <p className="text-sm text-gray-500">Keepa has no Best Sellers list for this category.</p>
+        )}
+
+        {rows && rows.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-right">#</TableHead>
+                <TableHead>ASIN</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead className="text-right">Sales Rank</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Est. Sales / Mo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => {
+                const estimate = row.data && estimateMonthlySales(row.data, curves)
+                return (
+                  <TableRow key={row.asin}>
+                    <TableCell className="text-right tabular-nums text-gray-500">{index + 1}</TableCell>
+                    <TableCell className="font-mono">{row.asin}</TableCell>
+                    <TableCell className="max-w-xs truncate">
+                      {row.data?.title ?? (
+                        row.status === 'pending'
+                          ? <span className="text-gray-400">Loading...</span>
+                          : <Badge variant="secondary" className="bg-gray-200 text-gray-700" title={row.error}>{row.error ?? 'Not found'}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {row.data?.salesRank ? `#${row.data.salesRank.toLocaleString()}` : '—'}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {row.data ? formatPrice(row.data.price, row.data.domainId) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {estimate ? `~${formatUnits(estimate.monthlySales)}` : '—'}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,133 @@
+import { useMemo, useState } from 'react'
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Badge } from './ui/badge'
+import { formatPrice } from '../lib/currency'
+import { cn } from '../lib/utils'
+import type { BulkRow, BulkRowStatus } from '../lib/bulk-lookup'
+
+type SortKey = 'asin' | 'title' | 'salesRank' | 'category' | 'price' | 'low' | 'high' | 'average' | 'median' | 'availability' | 'status'
+
+interface Column {
+  key: SortKey
+  label: string
+  numeric?: boolean
+  value: (row: BulkRow) => string | number | undefined
+}
+
+const COLUMNS: Column[] = [
+  { key: 'asin', label: 'ASIN', value: (row) => row.asin },
+  { key: 'title', label: 'Title', value: (row) => row.data?.title },
+  { key: 'salesRank', label: 'Sales Rank', numeric: true, value: (row) => row.data?.salesRank },
+  { key: 'category', label: 'Category', value: (row) => row.data?.category },
+  { key: 'price', label: 'Price', numeric: true, value: (row) => row.data?.price },
+  { key: 'low', label: 'Low', numeric: true, value: (row) => row.data?.priceWindow?.min },
+  { key: 'high', label: 'High', numeric: true, value: (row) => row.data?.priceWindow?.max },
+  { key: 'average', label: 'Avg', numeric: true, value: (row) => row.data?.priceWindow?.average },
+  { key: 'median', label: 'Median', numeric: true, value: (row) => row.data?.priceWindow?.median },
+  { key: 'availability', label: 'Availability', value: (row) => row.data?.availability },
+  { key: 'status', label: 'Status', value: (row) => row.status },
+]
+
+const STATUS_BADGES: Record<BulkRowStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-gray-100 text-gray-700' },
+  ok: { label: 'OK', className: 'bg-green-100 text-green-800' },
+  invalid: { label: 'Invalid ASIN', className: 'bg-amber-100 text-amber-800' },
+  'not-found': { label: 'Not found', className: 'bg-gray-200 text-gray-700' },
+  error: { label: 'Error', className: 'bg-red-100 text-red-800' },
+}
+
+interface BulkResultsTableProps {
+  rows: BulkRow[]
+}
+
+export function BulkResultsTable({ rows }: BulkResultsTableProps) {
+  const [sort, setSort] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({ key: 'salesRank', direction: 'asc' })
+
+  const sortedRows = useMemo(() => {
+    const column = COLUMNS.find((c) => c.key === sort.key)!
+    const factor = sort.direction === 'asc' ? 1 : -1
+    return [...rows].sort((a, b) => {
+      const left = column.value(a)
+      const right = column.value(b)
+      // Rows without a value always sink to the bottom
+      if (left === undefined) return right === undefined ? 0 : 1
+      if (right === undefined) return -1
+      if (typeof left === 'number' && typeof right === 'number') return (left - right) * factor
+      return String(left).localeCompare(String(right)) * factor
+    })
+  }, [rows, sort])
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) => ({
+      key,
+      direction: current.key === key && current.direction === 'asc' ? 'desc' : 'asc',
+    }))
+  }
+
+  const renderCell = (column: Column, row: BulkRow) => {
+    const value = column.value(row)
+    if (column.key === 'status') {
+      const badge = STATUS_BADGES[row.status]
+      return (
+        <Badge variant="secondary" className={badge.className} title={row.error}>
+          {badge.label}
+        </Badge>
+      )
+    }
+    if (column.key === 'asin' && row.code) {
+      return (
+        <div>
+          {row.asin || <span className="text-gray-400">—</span>}
+          <p className="text-xs text-gray-500">from {row.code.kind} {row.code.code}</p>
+        </div>
+      )
+    }
+    if (value === undefined) return <span className="text-gray-400">—</span>
+    if (column.key === 'salesRank') return `#${value.toLocaleString()}`
+    if (column.numeric && row.data) return formatPrice(value as number, row.data.domainId)
+    return value
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {COLUMNS.map((column) => {
+            const SortIcon = sort.key !== column.key ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown
+            return (
+              <TableHead key={column.key} className={column.numeric ? 'text-right' : undefined}>
+                <button
+                  type="button"
+                  onClick={() => toggleSort(column.key)}
+                  className="inline-flex items-center gap-1 hover:text-gray-900"
+                >
+                  {column.label}
+                  <SortIcon className="h-3 w-3" />
+                </button>
+              </TableHead>
+            )
+          })}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sortedRows.map((row, index) => (
+          <TableRow key={row.status === 'invalid' ? `invalid-${index}` : row.code ? `${row.code.code}-${row.asin}` : row.asin}>
+            {COLUMNS.map((column) => (
+              <TableCell
+                key={column.key}
+                className={cn(
+                  column.numeric && 'text-right tabular-nums',
+                  column.key === 'asin' && 'font-mono',
+                  column.key === 'title' && 'max-w-xs truncate',
+                )}
+              >
+                {renderCell(column, row)}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,95 @@
+import { Crown } from 'lucide-react'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip'
+import type { BuyBoxHistory } from '../lib/buy-box'
+import { formatPrice } from '../lib/currency'
+import { cn } from '../lib/utils'
+
+interface BuyBoxPanelProps {
+  history: BuyBoxHistory
+  domainId: number
+}
+
+const PALETTE = ['bg-blue-500', 'bg-emerald-500', 'bg-violet-500', 'bg-pink-500', 'bg-teal-500', 'bg-yellow-500', 'bg-cyan-500']
+const AMAZON_COLOR = 'bg-orange-500'
+const NO_BUY_BOX_COLOR = 'bg-gray-300'
+
+export function BuyBoxPanel({ history, domainId }: BuyBoxPanelProps) {
+  const colors = new Map<string, string>()
+  let next = 0
+  for (const share of history.shares) {
+    if (share.isAmazon) colors.set(share.sellerId, AMAZON_COLOR)
+    else if (share.sellerId.startsWith('-')) colors.set(share.sellerId, NO_BUY_BOX_COLOR)
+    else colors.set(share.sellerId, PALETTE[next++ % PALETTE.length])
+  }
+  const colorOf = (sellerId: string) => colors.get(sellerId) ?? NO_BUY_BOX_COLOR
+  const labelOf = (sellerId: string) => history.shares.find((share) => share.sellerId === sellerId)?.label ?? sellerId
+
+  const first = history.segments[0]?.start.getTime() ?? 0
+  const last = history.segments[history.segments.length - 1]?.end.getTime() ?? 0
+  const span = Math.max(last - first, 1)
+
+  return (
+    <div>
+      <h3 className="font-semibold text-gray-900 mb-2 flex items-center gap-2">
+        <Crown className="h-4 w-4" />
+        Buy Box History
+      </h3>
+
+      {history.segments.length > 0 && (
+        <TooltipProvider>
+          <div className="flex h-4 w-full overflow-hidden rounded mb-1">
+            {history.segments.map((segment) => (
+              <Tooltip key={segment.start.getTime()}>
+                <TooltipTrigger asChild>
+                  <div
+                    className={colorOf(segment.sellerId)}
+                    style={{ width: `${((segment.end.getTime() - segment.start.getTime()) / span) * 100}%` }}
+                  />
+                </TooltipTrigger>
+                <TooltipContent>
+                  {labelOf(segment.sellerId)}: {segment.start.toLocaleDateString()} – {segment.end.toLocaleDateString()}
+                </TooltipContent>
+              </Tooltip>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 mb-3">
+            <span>{new Date(first).toLocaleDateString()}</span>
+            <span>{new Date(last).toLocaleDateString()}</span>
+          </div>
+        </TooltipProvider>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Seller</TableHead>
+            <TableHead className="text-right">Share</TableHead>
+            <TableHead>Fulfillment</TableHead>
+            <TableHead className="text-right">Avg Price</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {history.shares.map((share) => (
+            <TableRow key={share.sellerId}>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  <span className={cn('h-2.5 w-2.5 rounded-full', colorOf(share.sellerId))} />
+                  <span className="truncate max-w-48">{share.label}</span>
+                </div>
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{share.share.toFixed(1)}%</TableCell>
+              <TableCell>{share.isAmazon ? 'Amazon' : share.isFBA === undefined ? '—' : share.isFBA ? 'FBA' : 'FBM'}</TableCell>
+              <TableCell className="text-right tabular-nums">
+                {share.avgPrice === undefined ? '—' : formatPrice(share.avgPrice, domainId)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <p className="text-xs text-gray-500 mt-2">
+        Shares {history.basis === 'keepa' ? "from Keepa's Buy Box stats" : 'derived from the Buy Box seller history'}.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+import { Fragment } from 'react'
+import { Layers } from 'lucide-react'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from './ui/breadcrumb'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Badge } from './ui/badge'
+import type { CategoryNode, CategoryRank } from '../lib/categories'
+
+interface CategoryBreadcrumbProps {
+  path: CategoryNode[]
+}
+
+export function CategoryBreadcrumb({ path }: CategoryBreadcrumbProps) {
+  if (path.length === 0) return null
+
+  return (
+    <Breadcrumb>
+      <BreadcrumbList>
+        {path.map((node, index) => (
+          <Fragment key={node.catId}>
+            {index > 0 && <BreadcrumbSeparator />}
+            <BreadcrumbItem>
+              {index === path.length - 1 ? <BreadcrumbPage>{node.name}</BreadcrumbPage> : node.name}
+            </BreadcrumbItem>
+          </Fragment>
+        ))}
+      </BreadcrumbList>
+    </Breadcrumb>
+  )
+}
+
+interface CategoryRanksPanelProps {
+  ranks: CategoryRank[]
+}
+
+export function CategoryRanksPanel({ ranks }: CategoryRanksPanelProps) {
+  return (
+    <div>
+      <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-2">
+        <Layers className="h-4 w-4" />
+        Category Ranks
+      </h3>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Category</TableHead>
+            <TableHead className="text-right">Rank</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {ranks.map((rank) => (
+            <TableRow key={rank.catId}>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  <span>{rank.name ?? <span className="font-mono text-gray-500">#{rank.catId}</span>}</span>
+                  {rank.isReference && (
+                    <Badge variant="secondary" className="bg-primary/10 text-primary">Reference</Badge>
+                  )}
+                </div>
+              </TableCell>
+              <TableCell className="text-right font-medium">#{rank.rank.toLocaleString()}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
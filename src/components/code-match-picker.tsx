@@ -0,0 +1,66 @@
+import { ListChecks } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { formatPrice } from '../lib/currency'
+import type { KeepaProduct } from '../lib/keepa/schemas'
+import type { LookbackWindow } from '../lib/lookback'
+import type { ProductCode } from '../lib/product-codes'
+import { buildSalesRankData } from '../lib/sales-rank'
+
+interface CodeMatchPickerProps {
+  code: ProductCode
+  // Every product the code matched, already fetched in full
+  products: KeepaProduct[]
+  lookback: LookbackWindow
+  onPick: (product: KeepaProduct) => void
+}
+
+export function CodeMatchPicker({ code, products, lookback, onPick }: CodeMatchPickerProps) {
+  return (
+    <Card className="mb-8 animate-slide-up">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          {products.length} Products Match {code.kind} {code.code}
+        </CardTitle>
+        <CardDescription>
+          Pick the listing you want details for
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>ASIN</TableHead>
+              <TableHead>Title</TableHead>
+              <TableHead className="text-right">Sales Rank</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {products.map((product) => {
+              const summary = buildSalesRankData(product.asin, product, lookback)
+              return (
+                <TableRow key={product.asin}>
+                  <TableCell className="font-mono">{product.asin}</TableCell>
+                  <TableCell className="max-w-xs truncate">{summary.title}</TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {summary.salesRank ? `#${summary.salesRank.toLocaleString()}` : '—'}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{formatPrice(summary.price, summary.domainId)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button type="button" size="sm" variant="outline" onClick={() => onPick(product)}>
+                      View
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,319 @@
+import { useState, type ReactNode } from 'react'
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { GitCompare, Loader2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from './ui/chart'
+import { Checkbox } from './ui/checkbox'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Tabs, TabsList, TabsTrigger } from './ui/tabs'
+import { Textarea } from './ui/textarea'
+import { useSalesCurves } from '../hooks/use-sales-curves'
+import { parseAsinList } from '../lib/asin'
+import {
+  MAX_COMPARE_ASINS,
+  MIN_COMPARE_ASINS,
+  buildComparePriceRows,
+  buildCompareRankRows,
+  fetchComparison,
+  type Comparison,
+} from '../lib/compare'
+import { formatPrice } from '../lib/currency'
+import { formatChartDate } from '../lib/history-chart'
+import type { KeepaClient } from '../lib/keepa/client'
+import { getMarketplace } from '../lib/keepa/domains'
+import { estimateProductCost } from '../lib/keepa/tokens'
+import { lookbackLabel, type LookbackWindow } from '../lib/lookback'
+import { estimateMonthlySales, formatUnits } from '../lib/sales-estimate'
+import type { SalesRankData } from '../lib/sales-rank'
+
+interface CompareViewProps {
+  client: KeepaClient
+  domainId: number
+  lookback: LookbackWindow
+  hasApiKey: boolean
+  onError: (err: unknown, fallback?: string) => void
+  // Opens one of the compared ASINs in the regular result card
+  onOpen: (asin: string, domainId: number) => void
+}
+
+type CompareMetric = 'rank' | 'price'
+
+// The theme defines five chart colors; compare mode needs up to eight
+const SERIES_COLORS = [
+  'hsl(var(--chart-1))',
+  'hsl(var(--chart-2))',
+  'hsl(var(--chart-3))',
+  'hsl(var(--chart-4))',
+  'hsl(var(--chart-5))',
+  'hsl(190 70% 42%)',
+  'hsl(100 45% 40%)',
+  'hsl(0 0% 45%)',
+]
+
+const formatRank = (rank: number | undefined) => (rank ? `#${Math.round(rank).toLocaleString()}` : '—')
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`
+
+export function CompareView({ client, domainId, lookback, hasApiKey, onError, onOpen }: CompareViewProps) {
+  const curves = useSalesCurves()
+  const [asinText, setAsinText] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  // Window the comparison was fetched for, so changing the setting doesn't relabel old data
+  const [comparedLookback, setComparedLookback] = useState<LookbackWindow>(lookback)
+  const [metric, setMetric] = useState<CompareMetric>('rank')
+  const [normalized, setNormalized] = useState(true)
+  const [hidden, setHidden] = useState<string[]>([])
+
+  const summary = parseAsinList(asinText)
+  const marketplace = getMarketplace(domainId)
+
+  const handleCompare = async () => {
+    if (summary.codes.length > 0 || summary.invalid.length > 0) {
+      onError('Compare mode takes ASINs or Amazon product links only')
+      return
+    }
+    if (summary.valid.length < MIN_COMPARE_ASINS || summary.valid.length > MAX_COMPARE_ASINS) {
+      onError(`Please enter between ${MIN_COMPARE_ASINS} and ${MAX_COMPARE_ASINS} ASINs to compare`)
+      return
+    }
+    if (!hasApiKey) {
+      onError('Please enter your Keepa API key')
+      return
+    }
+
+    setLoading(true)
+    setComparison(null)
+    setHidden([])
+    try {
+      setComparison(await fetchComparison(client, domainId, summary.valid, lookback))
+      setComparedLookback(lookback)
+    } catch (err) {
+      onError(err, 'Failed to fetch the products to compare from Keepa API')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const compared = comparison?.products ?? []
+  const products = compared.map((item) => item.product)
+  const rows = metric === 'rank'
+    ? buildCompareRankRows(products, comparedLookback)
+    : buildComparePriceRows(products, comparedLookback, normalized)
+  const span = rows.length > 0 ? rows[rows.length - 1].time - rows[0].time : 0
+  const resultDomainId = compared[0]?.data.domainId ?? domainId
+
+  const chartConfig = Object.fromEntries(
+    products.map((product, i) => [product.asin, { label: product.asin, color: SERIES_COLORS[i] }]),
+  ) satisfies ChartConfig
+
+  const formatValue = (value: number) => {
+    if (metric === 'rank') return formatRank(value)
+    return normalized ? formatPercent(value) : formatPrice(value, resultDomainId)
+  }
+
+  const toggle = (key: string) =>
+    setHidden((current) => (current.includes(key) ? current.filter((k) => k !== key) : [...current, key]))
+
+  const windowLabel = lookbackLabel(comparedLookback)
+  const fields: { label: string, value: (data: SalesRankData) => ReactNode }[] = [
+    { label: 'Title', value: (data) => <span className="line-clamp-3">{data.title}</span> },
+    { label: 'Category', value: (data) => data.category },
+    { label: 'Sales Rank', value: (data) => formatRank(data.salesRank) },
+    { label: 'Rank Avg 30d', value: (data) => formatRank(data.serverStats?.rankAvg30) },
+    { label: 'Rank Avg 90d', value: (data) => formatRank(data.serverStats?.rankAvg90) },
+    { label: 'Rank Drops 30d', value: (data) => data.serverStats?.salesRankDrops30 ?? '—' },
+    {
+      label: 'Est. Monthly Sales',
+      value: (data) => {
+        const estimate = estimateMonthlySales(data, curves)
+        return estimate ? `~${formatUnits(estimate.monthlySales)}` : '—'
+      },
+    },
+    { label: 'Current Price', value: (data) => formatPrice(data.price, data.domainId) },
+    { label: `Low (${windowLabel})`, value: (data) => formatPrice(data.priceWindow?.min, data.domainId) },
+    { label: `High (${windowLabel})`, value: (data) => formatPrice(data.priceWindow?.max, data.domainId) },
+    { label: `Average (${windowLabel})`, value: (data) => formatPrice(data.priceWindow?.average, data.domainId) },
+    { label: `Median (${windowLabel})`, value: (data) => formatPrice(data.priceWindow?.median, data.domainId) },
+    { label: 'Price Source', value: (data) => data.priceSource ?? '—' },
+    {
+      label: `Out of Stock (${windowLabel})`,
+      value: (data) => (data.serverStats?.outOfStockPercentage === undefined ? '—' : `${data.serverStats.outOfStockPercentage}%`),
+    },
+    {
+      label: 'FBA Fee',
+      value: (data) => (data.fees.fbaFee === undefined ? '—' : formatPrice(data.fees.fbaFee, data.domainId)),
+    },
+    { label: 'Referral Fee', value: (data) => (data.fees.referralPercent === undefined ? '—' : `${data.fees.referralPercent}%`) },
+    { label: 'Parent ASIN', value: (data) => (data.parentAsin ? <span className="font-mono">{data.parentAsin}</span> : '—') },
+  ]
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5" />
+          Compare ASINs
+        </CardTitle>
+        <CardDescription>
+          Plot {MIN_COMPARE_ASINS}–{MAX_COMPARE_ASINS} competing {marketplace.host} listings on one chart and line up their numbers
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <label htmlFor="compareAsins" className="text-sm font-medium text-gray-700">
+            ASINs to Compare
+          </label>
+          <Textarea
+            id="compareAsins"
+            placeholder={'B08N5WRWNW\nB07FZ8S74R\nB09B8V1LZ3'}
+            value={asinText}
+            onChange={(e) => setAsinText(e.target.value)}
+            className="font-mono min-h-24"
+          />
+          <p className="text-xs text-gray-500">
+            {summary.valid.length} of {MAX_COMPARE_ASINS} ASINs
+            {summary.duplicates > 0 && `, ${summary.duplicates} duplicates removed`}
+            {' '}· uses the {lookbackLabel(lookback)} price window from the Lookup page
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button type="button" disabled={loading} onClick={handleCompare}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Compare
+          </Button>
+          <p className="text-xs text-gray-500">
+            Estimated cost: {estimateProductCost({ asinCount: summary.valid.length })} tokens
+          </p>
+        </div>
+
+        {comparison && comparison.missing.length > 0 && (
+          <p className="text-sm text-amber-700">
+            Keepa has no data for {comparison.missing.join(', ')}
+          </p>
+        )}
+
+        {compared.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center gap-4">
+              <Tabs value={metric} onValueChange={(value) => setMetric(value as CompareMetric)}>
+                <TabsList>
+                  <TabsTrigger value="rank">Sales Rank</TabsTrigger>
+                  <TabsTrigger value="price">Price</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {metric === 'price' && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="compareNormalized"
+                    checked={normalized}
+                    onCheckedChange={(checked) => setNormalized(checked === true)}
+                  />
+                  <label htmlFor="compareNormalized" className="text-sm text-gray-700">
+                    Show as % change from the start of the window
+                  </label>
+                </div>
+              )}
+            </div>
+
+            {rows.length > 0 ? (
+              <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+                <LineChart data={rows} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(time: number) => formatChartDate(time, span)}
+                  />
+                  {metric === 'rank' ? (
+                    <YAxis scale="log" domain={['auto', 'auto']} reversed allowDataOverflow width={64} tickFormatter={formatRank} />
+                  ) : (
+                    <YAxis domain={['auto', 'auto']} width={64} tickFormatter={formatValue} />
+                  )}
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => new Date(payload[0]?.payload.time).toLocaleString()}
+                        formatter={(value, name, item) => (
+                          <>
+                            <div className="h-2.5 w-2.5 shrink-0 rounded-[2px]" style={{ backgroundColor: item.color }} />
+                            <div className="flex flex-1 justify-between gap-4 leading-none">
+                              <span className="font-mono text-muted-foreground">{name}</span>
+                              <span className="font-mono font-medium tabular-nums text-foreground">
+                                {formatValue(Number(value))}
+                              </span>
+                            </div>
+                          </>
+                        )}
+                      />
+                    }
+                  />
+                  <ChartLegend content={<ChartLegendContent onItemClick={toggle} />} />
+                  {products.map((product) => (
+                    <Line
+                      key={product.asin}
+                      dataKey={product.asin}
+                      type="stepAfter"
+                      stroke={`var(--color-${product.asin})`}
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls={false}
+                      hide={hidden.includes(product.asin)}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-sm text-gray-500">Keepa has no {metric === 'rank' ? 'sales rank' : 'price'} history for these products in this window.</p>
+            )}
+            {metric === 'rank' && (
+              <p className="text-xs text-gray-500">
+                Ranks use a log scale so listings that sell very differently stay readable; better ranks plot higher.
+              </p>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  {compared.map(({ data }) => (
+                    <TableHead key={data.asin} className="min-w-36">
+                      <button
+                        type="button"
+                        onClick={() => onOpen(data.asin, data.domainId)}
+                        className="font-mono text-primary hover:underline"
+                      >
+                        {data.asin}
+                      </button>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fields.map((field) => (
+                  <TableRow key={field.label}>
+                    <TableCell className="font-medium whitespace-nowrap">{field.label}</TableCell>
+                    {compared.map(({ data }) => (
+                      <TableCell key={data.asin} className="align-top tabular-nums">{field.value(data)}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
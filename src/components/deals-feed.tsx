@@ -0,0 +1,247 @@
+import { useState } from 'react'
+import { ArrowRight, Loader2, Tag } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { useRootCategories } from '../hooks/use-root-categories'
+import { formatPrice, toMajorUnits } from '../lib/currency'
+import {
+  DEAL_PRICE_TYPES,
+  DEAL_WINDOWS,
+  DEFAULT_DEAL_FILTERS,
+  dealPriceLabel,
+  fetchDeals,
+  type Deal,
+  type DealDrop,
+  type DealPriceType,
+} from '../lib/deals'
+import type { KeepaClient } from '../lib/keepa/client'
+import { getMarketplace } from '../lib/keepa/domains'
+import { DEALS_COST } from '../lib/keepa/tokens'
+
+interface DealsFeedProps {
+  client: KeepaClient
+  domainId: number
+  hasApiKey: boolean
+  onError: (err: unknown, fallback?: string) => void
+  // Opens the deal's product in the regular result card
+  onOpen: (asin: string, domainId: number) => void
+}
+
+const ANY_CATEGORY = 'any'
+
+export function DealsFeed({ client, domainId, hasApiKey, onError, onOpen }: DealsFeedProps) {
+  const roots = useRootCategories(client, domainId, onError)
+  const [category, setCategory] = useState(ANY_CATEGORY)
+  // Category IDs are per marketplace, so switching marketplace clears the filter
+  const [categoryDomainId, setCategoryDomainId] = useState(domainId)
+  const [minDrop, setMinDrop] = useState(String(DEFAULT_DEAL_FILTERS.minDropPercent))
+  const [maxRank, setMaxRank] = useState('')
+  const [dateRange, setDateRange] = useState(DEFAULT_DEAL_FILTERS.dateRange)
+  const [priceType, setPriceType] = useState<DealPriceType>(DEFAULT_DEAL_FILTERS.priceType)
+  const [loading, setLoading] = useState(false)
+  // Deals keep the marketplace and price they were loaded for, so they format and open correctly
+  const [deals, setDeals] = useState<{ domainId: number, priceType: DealPriceType, items: Deal[] } | null>(null)
+
+  if (categoryDomainId !== domainId) {
+    setCategoryDomainId(domainId)
+    setCategory(ANY_CATEGORY)
+  }
+
+  const marketplace = getMarketplace(domainId)
+
+  const handleLoad = async () => {
+    if (!hasApiKey) {
+      onError('Please enter your Keepa API key')
+      return
+    }
+    const dropPercent = Number(minDrop || 0)
+    if (!Number.isFinite(dropPercent) || dropPercent < 0 || dropPercent > 100) {
+      onError('Minimum drop must be a percentage between 0 and 100')
+      return
+    }
+    if (maxRank && !/^\d+$/.test(maxRank)) {
+      onError('Rank ceiling must be a whole number')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const items = await fetchDeals(client, domainId, {
+        categoryId: category === ANY_CATEGORY ? undefined : Number(category),
+        minDropPercent: dropPercent,
+        maxRank: maxRank ? Number(maxRank) : undefined,
+        dateRange,
+        priceType,
+      })
+      setDeals({ domainId, priceType, items })
+    } catch (err) {
+      onError(err, 'Failed to load deals from Keepa API')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const renderDrop = (drop: DealDrop | undefined, dealDomainId: number) => {
+    if (!drop) return <span className="text-gray-400">—</span>
+    return (
+      <div className={drop.amount > 0 ? 'text-green-700' : 'text-red-700'}>
+        <p className="font-medium">
+          {drop.amount > 0 ? '-' : '+'}{formatPrice(toMajorUnits(Math.abs(drop.amount), dealDomainId), dealDomainId)}
+          {' '}({drop.percent > 0 ? '-' : '+'}{Math.abs(drop.percent).toFixed(0)}%)
+        </p>
+        <p className="text-xs text-gray-500">avg {formatPrice(toMajorUnits(drop.average, dealDomainId), dealDomainId)}</p>
+      </div>
+    )
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tag className="h-5 w-5" />
+          Deals
+        </CardTitle>
+        <CardDescription>
+          Recent price drops on {marketplace.host}, compared with each product's 30 and 90-day average
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="dealsCategory" className="text-sm font-medium text-gray-700">
+              Category
+            </label>
+            <Select
+              value={category}
+              onValueChange={setCategory}
+              onOpenChange={(open) => open && hasApiKey && roots.load()}
+            >
+              <SelectTrigger id="dealsCategory">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_CATEGORY}>Any category</SelectItem>
+                {roots.nodes.map((node) => (
+                  <SelectItem key={node.catId} value={String(node.catId)}>{node.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="dealsPriceType" className="text-sm font-medium text-gray-700">
+              Price
+            </label>
+            <Select value={String(priceType)} onValueChange={(value) => setPriceType(Number(value) as DealPriceType)}>
+              <SelectTrigger id="dealsPriceType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEAL_PRICE_TYPES.map((type) => (
+                  <SelectItem key={type} value={String(type)}>{dealPriceLabel(type)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="dealsWindow" className="text-sm font-medium text-gray-700">
+              Dropped In
+            </label>
+            <Select value={String(dateRange)} onValueChange={(value) => setDateRange(Number(value))}>
+              <SelectTrigger id="dealsWindow">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEAL_WINDOWS.map((window) => (
+                  <SelectItem key={window.value} value={String(window.value)}>{window.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="dealsMinDrop" className="text-sm font-medium text-gray-700">
+              Minimum Drop (%)
+            </label>
+            <Input
+              id="dealsMinDrop"
+              inputMode="numeric"
+              value={minDrop}
+              onChange={(e) => setMinDrop(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="dealsMaxRank" className="text-sm font-medium text-gray-700">
+              Rank Ceiling
+            </label>
+            <Input
+              id="dealsMaxRank"
+              inputMode="numeric"
+              placeholder="Any rank"
+              value={maxRank}
+              onChange={(e) => setMaxRank(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button type="button" disabled={loading} onClick={handleLoad}>
+            {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Tag className="mr-2 h-4 w-4" />}
+            Load Deals
+          </Button>
+          <p className="text-xs text-gray-500">
+            Estimated cost: {DEALS_COST} tokens per page of up to 150 deals, biggest drops first
+          </p>
+        </div>
+
+        {deals && deals.items.length === 0 && (
+          <p className="text-sm text-gray-500">No deals match these filters right now.</p>
+        )}
+
+        {deals && deals.items.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Sales Rank</TableHead>
+                <TableHead className="text-right">{dealPriceLabel(deals.priceType)} Now</TableHead>
+                <TableHead className="text-right">vs 30-Day Avg</TableHead>
+                <TableHead className="text-right">vs 90-Day Avg</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deals.items.map((deal) => (
+                <TableRow key={deal.asin}>
+                  <TableCell className="max-w-xs">
+                    <p className="truncate">{deal.title}</p>
+                    <p className="text-xs font-mono text-gray-500">{deal.asin}</p>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {deal.salesRank ? `#${deal.salesRank.toLocaleString()}` : '—'}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {deal.current === undefined ? '—' : formatPrice(toMajorUnits(deal.current, deals.domainId), deals.domainId)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{renderDrop(deal.vs30, deals.domainId)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{renderDrop(deal.vs90, deals.domainId)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button type="button" size="sm" variant="ghost" onClick={() => onOpen(deal.asin, deals.domainId)}>
+                      Open
+                      <ArrowRight className="ml-1 h-3 w-3" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,64 @@
+import { CalendarRange, X } from 'lucide-react'
+import type { DateRange as DayPickerRange } from 'react-day-picker'
+import { Button } from './ui/button'
+import { Calendar } from './ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { formatRange } from '../lib/range-stats'
+import type { DateRange } from '../lib/series-stats'
+
+interface HistoryRangePickerProps {
+  range?: DateRange
+  // Earliest selectable day: the start of the lookup's window
+  earliest?: Date
+  windowLabel: string
+  onChange: (range: DateRange | undefined) => void
+}
+
+const endOfDay = (date: Date) => {
+  const end = new Date(date)
+  end.setHours(23, 59, 59, 999)
+  return end
+}
+
+export function HistoryRangePicker({ range, earliest, windowLabel, onChange }: HistoryRangePickerProps) {
+  const handleSelect = (selected: DayPickerRange | undefined) => {
+    if (!selected?.from) {
+      onChange(undefined)
+      return
+    }
+    onChange({ start: selected.from, end: endOfDay(selected.to ?? selected.from) })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm">
+            <CalendarRange className="mr-2 h-4 w-4" />
+            {range ? formatRange(range) : `Whole window (${windowLabel})`}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="range"
+            numberOfMonths={2}
+            captionLayout="dropdown"
+            defaultMonth={range?.start ?? earliest}
+            selected={range && { from: range.start, to: range.end }}
+            onSelect={handleSelect}
+            disabled={[{ after: new Date() }, ...(earliest ? [{ before: earliest }] : [])]}
+          />
+        </PopoverContent>
+      </Popover>
+      {range && (
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange(undefined)}>
+          <X className="mr-1 h-4 w-4" />
+          Reset
+        </Button>
+      )}
+      <p className="text-xs text-gray-500">
+        Pick dates or drag the handles under a chart; the tiles above follow the selected range.
+      </p>
+    </div>
+  )
+}
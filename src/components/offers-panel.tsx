@@ -0,0 +1,87 @@
+import { Crown, Store } from 'lucide-react'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Badge } from './ui/badge'
+import { formatPrice } from '../lib/currency'
+import type { Fulfillment, OffersSummary } from '../lib/offers'
+import { cn } from '../lib/utils'
+
+interface OffersPanelProps {
+  summary: OffersSummary
+  domainId: number
+}
+
+const FULFILLMENT_BADGES: Record<Fulfillment, string> = {
+  Amazon: 'bg-orange-100 text-orange-800',
+  FBA: 'bg-blue-100 text-blue-800',
+  FBM: 'bg-gray-100 text-gray-700',
+}
+
+export function OffersPanel({ summary, domainId }: OffersPanelProps) {
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Store className="h-4 w-4" />
+          Offers
+        </h3>
+        <div className="flex gap-2 text-xs">
+          <Badge variant="secondary" className={FULFILLMENT_BADGES.FBA}>{summary.fbaCount} FBA</Badge>
+          <Badge variant="secondary" className={FULFILLMENT_BADGES.FBM}>{summary.fbmCount} FBM</Badge>
+          {summary.amazonOnListing && (
+            <Badge variant="secondary" className={FULFILLMENT_BADGES.Amazon}>Amazon on listing</Badge>
+          )}
+        </div>
+      </div>
+
+      {summary.offers.length === 0 ? (
+        <p className="text-sm text-gray-500">No live offers right now.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Seller</TableHead>
+              <TableHead>Condition</TableHead>
+              <TableHead className="text-right">Price + Ship</TableHead>
+              <TableHead>Fulfillment</TableHead>
+              <TableHead>Prime</TableHead>
+              <TableHead className="text-right">Stock</TableHead>
+              <TableHead className="text-right">Feedback</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summary.offers.map((offer, index) => (
+              <TableRow key={`${offer.sellerId}-${index}`} className={cn(offer.isBuyBoxWinner && 'bg-amber-50')}>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    {offer.isBuyBoxWinner && <Crown className="h-4 w-4 text-amber-500" aria-label="Buy Box winner" />}
+                    <span className="truncate max-w-40">{offer.sellerName ?? offer.sellerId}</span>
+                  </div>
+                </TableCell>
+                <TableCell>{offer.condition}</TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {formatPrice(offer.total, domainId)}
+                  {offer.shipping > 0 && (
+                    <span className="block text-xs text-gray-500">
+                      {formatPrice(offer.price, domainId)} + {formatPrice(offer.shipping, domainId)}
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="secondary" className={FULFILLMENT_BADGES[offer.fulfillment]}>{offer.fulfillment}</Badge>
+                </TableCell>
+                <TableCell>{offer.isPrime ? 'Yes' : 'No'}</TableCell>
+                <TableCell className="text-right tabular-nums">{offer.stock?.toLocaleString() ?? '—'}</TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {offer.rating === undefined ? '—' : `${offer.rating}%`}
+                  {offer.ratingCount !== undefined && (
+                    <span className="block text-xs text-gray-500">{offer.ratingCount.toLocaleString()} ratings</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
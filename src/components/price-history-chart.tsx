@@ -0,0 +1,115 @@
+import { useState } from 'react'
+import { Brush, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { DollarSign } from 'lucide-react'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from './ui/chart'
+import { formatPrice } from '../lib/currency'
+import { PRICE_CHART_SERIES, buildPriceHistory, brushIndices, formatChartDate, rangeFromBrush } from '../lib/history-chart'
+import type { KeepaProduct } from '../lib/keepa/schemas'
+import { lookbackLabel, type LookbackWindow } from '../lib/lookback'
+import type { DateRange } from '../lib/series-stats'
+
+interface PriceHistoryChartProps {
+  product: KeepaProduct
+  window: LookbackWindow
+  // Zoomed-in part of the window, shared with the other history charts
+  range?: DateRange
+  onRangeChange: (range: DateRange | undefined) => void
+}
+
+const chartConfig = Object.fromEntries(
+  PRICE_CHART_SERIES.map((series, i) => [series.key, { label: series.label, color: `hsl(var(--chart-${i + 1}))` }]),
+) satisfies ChartConfig
+
+export function PriceHistoryChart({ product, window, range, onRangeChange }: PriceHistoryChartProps) {
+  const [hidden, setHidden] = useState<string[]>([])
+  const { keys, rows } = buildPriceHistory(product, window)
+  const { startIndex, endIndex } = brushIndices(rows, range)
+  const span = rows.length > 0 ? rows[endIndex].time - rows[startIndex].time : 0
+
+  const toggle = (key: string) =>
+    setHidden((current) => (current.includes(key) ? current.filter((k) => k !== key) : [...current, key]))
+
+  return (
+    <div>
+      <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-2">
+        <DollarSign className="h-4 w-4" />
+        Price History ({lookbackLabel(window)})
+      </h3>
+      {keys.length > 0 ? (
+        <>
+          <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+            <LineChart data={rows} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(time: number) => formatChartDate(time, span)}
+              />
+              <YAxis
+                width={64}
+                domain={['auto', 'auto']}
+                tickFormatter={(price: number) => formatPrice(price, product.domainId)}
+              />
+              <ChartTooltip
+                filterNull={false}
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => new Date(payload[0]?.payload.time).toLocaleString()}
+                    formatter={(value, name, item) => (
+                      <>
+                        <div className="h-2.5 w-2.5 shrink-0 rounded-[2px]" style={{ backgroundColor: item.color }} />
+                        <div className="flex flex-1 justify-between gap-4 leading-none">
+                          <span className="text-muted-foreground">{chartConfig[String(name)]?.label ?? name}</span>
+                          <span className="font-mono font-medium tabular-nums text-foreground">
+                            {value === null ? 'No offer' : formatPrice(Number(value), product.domainId)}
+                          </span>
+                        </div>
+                      </>
+                    )}
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent onItemClick={toggle} />} />
+              {keys.map((key) => (
+                <Line
+                  key={key}
+                  dataKey={key}
+                  type="stepAfter"
+                  stroke={`var(--color-${key})`}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls={false}
+                  hide={hidden.includes(key)}
+                  isAnimationActive={false}
+                />
+              ))}
+              <Brush
+                dataKey="time"
+                height={24}
+                stroke="hsl(var(--primary))"
+                startIndex={startIndex}
+                endIndex={endIndex}
+                tickFormatter={(time: number) => new Date(time).toLocaleDateString()}
+                onChange={(selection) => onRangeChange(rangeFromBrush(rows, selection.startIndex, selection.endIndex))}
+              />
+            </LineChart>
+          </ChartContainer>
+          <p className="text-xs text-gray-500 mt-1">
+            Click a series in the legend to show or hide it. Breaks in a line are stretches with no offer.
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">Keepa has no price history for this window.</p>
+      )}
+    </div>
+  )
+}
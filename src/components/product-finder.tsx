@@ -0,0 +1,290 @@
+import { useEffect, useRef, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Bookmark, Filter, Loader2, Play, Search, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Checkbox } from './ui/checkbox'
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from './ui/form'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { useRootCategories } from '../hooks/use-root-categories'
+import { useSavedFinderQueries } from '../hooks/use-saved-finder-queries'
+import { cachedCategoryName } from '../lib/categories'
+import { KEEPA_MIN_QUERY_PAGE_SIZE, type KeepaClient } from '../lib/keepa/client'
+import { getMarketplace } from '../lib/keepa/domains'
+import { estimateQueryCost } from '../lib/keepa/tokens'
+import {
+  EMPTY_FINDER_FILTERS,
+  findAsins,
+  finderFiltersSchema,
+  savedFinderQueryStore,
+  type FinderFilters,
+  type SavedFinderQuery,
+} from '../lib/product-finder'
+
+interface ProductFinderProps {
+  client: KeepaClient
+  domainId: number
+  hasApiKey: boolean
+  onError: (err: unknown, fallback?: string) => void
+  // Matching ASINs, handed to the bulk lookup for full details
+  onResults: (asins: string[], domainId: number) => void
+}
+
+const ANY_CATEGORY = 'any'
+
+const RANGES = [
+  { label: 'Sales Rank', min: 'rankMin', max: 'rankMax' },
+  { label: 'New Price', min: 'priceMin', max: 'priceMax' },
+  { label: 'New Offer Count', min: 'offersMin', max: 'offersMax' },
+] as const
+
+export function ProductFinder({ client, domainId, hasApiKey, onError, onResults }: ProductFinderProps) {
+  const savedQueries = useSavedFinderQueries()
+  const [searching, setSearching] = useState(false)
+  const [lastCount, setLastCount] = useState<{ found: number, total: number } | null>(null)
+  const [queryName, setQueryName] = useState('')
+
+  const form = useForm<FinderFilters>({
+    resolver: zodResolver(finderFiltersSchema),
+    defaultValues: EMPTY_FINDER_FILTERS,
+  })
+
+  // Category IDs are per marketplace, so switching marketplace clears the picked one. Setting a
+  // form value updates its fields right away, so this runs after render rather than during it
+  const categoryDomainId = useRef(domainId)
+  useEffect(() => {
+    if (categoryDomainId.current === domainId) return
+    categoryDomainId.current = domainId
+    form.setValue('rootCategory', '')
+  }, [domainId, form])
+
+  const roots = useRootCategories(client, domainId, onError)
+  const marketplace = getMarketplace(domainId)
+
+  const search = async (filters: FinderFilters, queryDomainId: number) => {
+    if (!hasApiKey) {
+      onError('Please enter your Keepa API key')
+      return
+    }
+    setSearching(true)
+    try {
+      const { asins, totalResults } = await findAsins(client, queryDomainId, filters)
+      setLastCount({ found: asins.length, total: totalResults })
+      if (asins.length > 0) {
+        onResults(asins, queryDomainId)
+      }
+    } catch (err) {
+      onError(err, 'Product Finder query failed')
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const handleSave = form.handleSubmit((filters) => {
+    const name = queryName.trim()
+    if (!name) return
+    savedFinderQueryStore.save(name, domainId, filters)
+    setQueryName('')
+  })
+
+  const handleRunSaved = (query: SavedFinderQuery) => {
+    // The results switch to the query's marketplace, which its category belongs to
+    categoryDomainId.current = query.domainId
+    form.reset(query.filters)
+    void search(query.filters, query.domainId)
+  }
+
+  const selectedRoot = form.watch('rootCategory')
+  const selectedRootMissing = selectedRoot !== '' && !roots.nodes.some((node) => String(node.catId) === selectedRoot)
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Filter className="h-5 w-5" />
+          Product Finder
+        </CardTitle>
+        <CardDescription>
+          Discover ASINs on {marketplace.host} by category, rank, price and offers, then check them all in one go
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((filters) => search(filters, domainId))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="rootCategory"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Root Category</FormLabel>
+                    <Select
+                      value={field.value || ANY_CATEGORY}
+                      onValueChange={(value) => field.onChange(value === ANY_CATEGORY ? '' : value)}
+                      onOpenChange={(open) => open && hasApiKey && roots.load()}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ANY_CATEGORY}>Any category</SelectItem>
+                        {selectedRootMissing && (
+                          <SelectItem value={selectedRoot}>
+                            {cachedCategoryName(domainId, Number(selectedRoot)) ?? `#${selectedRoot}`}
+                          </SelectItem>
+                        )}
+                        {roots.nodes.map((node) => (
+                          <SelectItem key={node.catId} value={String(node.catId)}>{node.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      {roots.loading ? 'Loading categories...' : 'Loading the list costs 1 token'}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="brand"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Brand</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Anker" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {RANGES.map((range) => (
+                <div key={range.min} className="grid grid-cols-2 gap-2">
+                  <FormField
+                    control={form.control}
+                    name={range.min}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{range.label} min</FormLabel>
+                        <FormControl>
+                          <Input inputMode="decimal" placeholder="Any" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={range.max}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{range.label} max</FormLabel>
+                        <FormControl>
+                          <Input inputMode="decimal" placeholder="Any" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ))}
+
+              <FormField
+                control={form.control}
+                name="minRating"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Rating</FormLabel>
+                    <FormControl>
+                      <Input inputMode="decimal" placeholder="e.g., 4.0" {...field} />
+                    </FormControl>
+                    <FormDescription>Stars, from 0 to 5</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="amazonInStock"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0 md:pt-8">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel className="font-normal">Amazon in stock</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button type="submit" disabled={searching}>
+                {searching ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Search className="mr-2 h-4 w-4" />
+                )}
+                Find Products
+              </Button>
+              <Button type="button" variant="outline" onClick={() => form.reset(EMPTY_FINDER_FILTERS)}>
+                Clear
+              </Button>
+              <div className="flex items-center gap-2 md:ml-auto">
+                <Input
+                  placeholder="Query name"
+                  value={queryName}
+                  onChange={(e) => setQueryName(e.target.value)}
+                  className="w-40"
+                />
+                <Button type="button" variant="outline" disabled={!queryName.trim()} onClick={handleSave}>
+                  <Bookmark className="mr-2 h-4 w-4" />
+                  Save
+                </Button>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Estimated cost: {estimateQueryCost(KEEPA_MIN_QUERY_PAGE_SIZE)} tokens for the top {KEEPA_MIN_QUERY_PAGE_SIZE} matches by sales rank, plus the bulk lookup
+              {lastCount && ` · last search matched ${lastCount.total.toLocaleString()} products, ${lastCount.found} sent to lookup`}
+            </p>
+          </form>
+        </Form>
+
+        {savedQueries.length > 0 && (
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Saved Queries</h3>
+            <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200">
+              {savedQueries.map((query) => (
+                <li key={query.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                  <span className="font-medium text-gray-900">{query.name}</span>
+                  <span className="text-gray-500">{getMarketplace(query.domainId).host}</span>
+                  <div className="ml-auto flex gap-1">
+                    <Button type="button" size="sm" variant="ghost" disabled={searching} onClick={() => handleRunSaved(query)}>
+                      <Play className="mr-1 h-3 w-3" />
+                      Run
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      aria-label={`Delete ${query.name}`}
+                      onClick={() => savedFinderQueryStore.remove(query.id)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
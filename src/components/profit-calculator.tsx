@@ -0,0 +1,147 @@
+import { useState } from 'react'
+import { Calculator } from 'lucide-react'
+import { Input } from './ui/input'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { formatPrice } from '../lib/currency'
+import { lookbackLabel } from '../lib/lookback'
+import {
+  calculateProfit,
+  effectiveFees,
+  loadProfitInputs,
+  saveProfitInputs,
+  type ProfitBreakdown,
+  type ProfitInputs,
+} from '../lib/profit'
+import type { SalesRankData } from '../lib/sales-rank'
+import { cn } from '../lib/utils'
+
+interface ProfitCalculatorProps {
+  result: SalesRankData
+}
+
+const COST_FIELDS = [
+  { key: 'unitCost', label: 'Unit Cost' },
+  { key: 'inboundShipping', label: 'Inbound Shipping' },
+  { key: 'prepCost', label: 'Prep Cost' },
+] as const
+
+export function ProfitCalculator({ result }: ProfitCalculatorProps) {
+  // Remembered per ASIN and marketplace; the card is re-keyed per result, so this loads once
+  const [inputs, setInputs] = useState<ProfitInputs>(() => loadProfitInputs(result.domainId, result.asin))
+
+  const update = (key: keyof ProfitInputs, value: string) => {
+    const next = { ...inputs, [key]: value }
+    setInputs(next)
+    saveProfitInputs(result.domainId, result.asin, next)
+  }
+
+  const fees = effectiveFees(inputs, result.fees)
+  const scenarios = [
+    { label: 'Current price', price: result.price },
+    { label: `${lookbackLabel(result.lookback)} low`, price: result.priceWindow?.min },
+  ].map((scenario) => ({
+    ...scenario,
+    breakdown: fees && scenario.price !== undefined ? calculateProfit(scenario.price, inputs, fees) : undefined,
+  }))
+
+  const money = (value: number) => formatPrice(value, result.domainId)
+  const percent = (value: number | undefined) => (value === undefined ? '—' : `${value.toFixed(1)}%`)
+  const rows: { label: string, value: (b: ProfitBreakdown) => string, emphasis?: boolean }[] = [
+    { label: 'Sale price', value: (b) => money(b.price) },
+    { label: 'Referral fee', value: (b) => `-${money(b.referralFee)}` },
+    { label: 'FBA fee', value: (b) => `-${money(b.fbaFee)}` },
+    { label: 'Landed cost', value: (b) => `-${money(b.landedCost)}` },
+    { label: 'Net profit', value: (b) => money(b.netProfit), emphasis: true },
+    { label: 'Margin', value: (b) => percent(b.margin) },
+    { label: 'ROI', value: (b) => percent(b.roi), emphasis: true },
+  ]
+
+  return (
+    <div>
+      <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-2">
+        <Calculator className="h-4 w-4" />
+        FBA Profit
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+        {COST_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <label htmlFor={`profit-${field.key}`} className="text-xs font-medium text-gray-600">
+              {field.label} ({result.currency})
+            </label>
+            <Input
+              id={`profit-${field.key}`}
+              inputMode="decimal"
+              placeholder="0.00"
+              value={inputs[field.key]}
+              onChange={(e) => update(field.key, e.target.value)}
+            />
+          </div>
+        ))}
+        <div className="space-y-1">
+          <label htmlFor="profit-fbaFee" className="text-xs font-medium text-gray-600">
+            FBA Fee ({result.currency})
+          </label>
+          <Input
+            id="profit-fbaFee"
+            inputMode="decimal"
+            placeholder={result.fees.fbaFee === undefined ? 'Not on Keepa' : result.fees.fbaFee.toFixed(2)}
+            value={inputs.fbaFee}
+            onChange={(e) => update('fbaFee', e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="profit-referralPercent" className="text-xs font-medium text-gray-600">
+            Referral Fee (%)
+          </label>
+          <Input
+            id="profit-referralPercent"
+            inputMode="decimal"
+            placeholder={result.fees.referralPercent === undefined ? 'Not on Keepa' : String(result.fees.referralPercent)}
+            value={inputs.referralPercent}
+            onChange={(e) => update('referralPercent', e.target.value)}
+          />
+        </div>
+      </div>
+
+      {fees ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead />
+              {scenarios.map((scenario) => (
+                <TableHead key={scenario.label} className="text-right">{scenario.label}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.label}>
+                <TableCell className={cn(row.emphasis && 'font-semibold')}>{row.label}</TableCell>
+                {scenarios.map(({ label, breakdown }) => (
+                  <TableCell
+                    key={label}
+                    className={cn(
+                      'text-right tabular-nums',
+                      row.emphasis && 'font-semibold',
+                      row.emphasis && breakdown && (breakdown.netProfit >= 0 ? 'text-green-700' : 'text-red-700'),
+                    )}
+                  >
+                    {breakdown ? row.value(breakdown) : '—'}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Keepa has no FBA or referral fee for this product; enter them above to see profit.
+        </p>
+      )}
+      <p className="text-xs text-gray-500 mt-2">
+        Fee fields left empty use Keepa's figures. Storage fees and VAT are not included.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,219 @@
+import { useState } from 'react'
+import { Package, TrendingUp, Users } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { BuyBoxPanel } from './buy-box-panel'
+import { CategoryBreadcrumb, CategoryRanksPanel } from './category-ranks-panel'
+import { HistoryRangePicker } from './history-range-picker'
+import { OffersPanel } from './offers-panel'
+import { PriceHistoryChart } from './price-history-chart'
+import { ProfitCalculator } from './profit-calculator'
+import { SalesEstimateTile } from './sales-estimate-tile'
+import { SalesRankChart } from './sales-rank-chart'
+import { ServerStatsPanel } from './server-stats-panel'
+import { StatsConsistencyPanel } from './stats-consistency-panel'
+import { buildRangeBuyBoxShares } from '../lib/buy-box'
+import { formatPrice } from '../lib/currency'
+import type { KeepaProduct } from '../lib/keepa/schemas'
+import { lookbackLabel, lookbackStart } from '../lib/lookback'
+import { buildRangeStats, formatRange } from '../lib/range-stats'
+import type { SalesRankData } from '../lib/sales-rank'
+import type { DateRange } from '../lib/series-stats'
+
+interface ResultCardProps {
+  result: SalesRankData
+  // Raw Keepa product the result was built from, for panels that need the full history
+  product: KeepaProduct | null
+}
+
+export function ResultCard({ result, product }: ResultCardProps) {
+  // Part of the window picked on the history charts; the tiles follow it when set
+  const [range, setRange] = useState<DateRange>()
+  const windowStart = lookbackStart(result.lookback)
+  const rangeStats = product ? buildRangeStats(product, range ?? { start: windowStart }) : undefined
+  const periodLabel = range ? formatRange(range) : lookbackLabel(result.lookback)
+  const priceStats = range ? rangeStats?.price : result.priceWindow
+  const buyBox = range && product && result.buyBox ? buildRangeBuyBoxShares(product, result.buyBox, range) : result.buyBox
+
+  return (
+    <Card className="animate-slide-up">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          Sales Rank & Pricing Results
+        </CardTitle>
+        <CardDescription>
+          Data retrieved for ASIN: <span className="font-mono font-medium">{result.asin}</span> on {result.marketplace} ({result.currency})
+          {result.productCode && (
+            <> · resolved from {result.productCode.kind} <span className="font-mono font-medium">{result.productCode.code}</span></>
+          )}
+          {result.parentAsin && (
+            <> · variation of <span className="font-mono font-medium">{result.parentAsin}</span></>
+          )}
+          {result.variationCount && ` · ${result.variationCount} variations in the family`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Product Title */}
+        <div>
+          <h3 className="font-semibold text-gray-900 mb-2">Product Title</h3>
+          <p className="text-gray-700">{result.title}</p>
+          {result.categoryPath && (
+            <div className="mt-2">
+              <CategoryBreadcrumb path={result.categoryPath} />
+            </div>
+          )}
+        </div>
+
+        {/* Key Metrics */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          <div className="p-4 bg-primary/5 rounded-lg border border-primary/20">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Sales Rank</p>
+                <p className="text-2xl font-bold text-primary">
+                  {result.salesRank ? `#${result.salesRank.toLocaleString()}` : 'N/A'}
+                </p>
+              </div>
+              <TrendingUp className="h-8 w-8 text-primary/60" />
+            </div>
+            {rangeStats?.rank && (
+              <div className="text-xs text-primary mt-1 space-y-0.5">
+                <p>Avg #{Math.round(rangeStats.rank.average).toLocaleString()} ({periodLabel})</p>
+                <p>Best #{rangeStats.rank.min.toLocaleString()} · Worst #{rangeStats.rank.max.toLocaleString()}</p>
+              </div>
+            )}
+          </div>
+
+          <SalesEstimateTile result={result} range={range && { label: periodLabel, rank: rangeStats?.rank }} />
+
+          <div className="p-4 bg-accent/5 rounded-lg border border-accent/20">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Category</p>
+                <p className="text-lg font-semibold text-accent">
+                  {result.category}
+                </p>
+              </div>
+              <Package className="h-8 w-8 text-accent/60" />
+            </div>
+          </div>
+
+          <div className="p-4 bg-green-50 rounded-lg border border-green-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Current Price</p>
+                <p className="text-lg font-semibold text-green-700">
+                  {formatPrice(result.price, result.domainId)}
+                </p>
+              </div>
+              <Badge variant="secondary" className="bg-green-100 text-green-800">
+                {result.availability}
+              </Badge>
+            </div>
+          </div>
+
+          <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
+            <div>
+              <p className="text-sm font-medium text-gray-600">
+                Lowest Price ({periodLabel})
+              </p>
+              <p className="text-lg font-semibold text-blue-700">
+                {formatPrice(priceStats?.min, result.domainId)}
+              </p>
+              {priceStats && (
+                <div className="text-xs text-blue-600 mt-1 space-y-0.5">
+                  <p>{priceStats.source} price on {priceStats.minDate}</p>
+                  <p>High {formatPrice(priceStats.max, result.domainId)} on {priceStats.maxDate}</p>
+                  <p>
+                    Avg {formatPrice(priceStats.average, result.domainId)} · Median {formatPrice(priceStats.median, result.domainId)}
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {rangeStats?.newOffers && (
+            <div className="p-4 bg-slate-50 rounded-lg border border-slate-200">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">New Offers ({periodLabel})</p>
+                  <p className="text-lg font-semibold text-slate-700">
+                    Avg {rangeStats.newOffers.average.toFixed(1)}
+                  </p>
+                </div>
+                <Users className="h-8 w-8 text-slate-400" />
+              </div>
+              <div className="text-xs text-slate-600 mt-1 space-y-0.5">
+                <p>Low {rangeStats.newOffers.min} · High {rangeStats.newOffers.max}</p>
+                {rangeStats.usedOffers && (
+                  <p>
+                    Used avg {rangeStats.usedOffers.average.toFixed(1)} · {rangeStats.usedOffers.min}–{rangeStats.usedOffers.max}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {result.buyBox && (
+            <div className="p-4 bg-amber-50 rounded-lg border border-amber-200">
+              <p className="text-sm font-medium text-gray-600">
+                Buy Box Owner ({periodLabel})
+              </p>
+              <p className="text-lg font-semibold text-amber-700 truncate">
+                {buyBox?.shares[0] ? `${buyBox.shares[0].label} ${buyBox.shares[0].share.toFixed(0)}%` : 'N/A'}
+              </p>
+              {buyBox && (
+                <p className="text-xs text-amber-700 mt-1">
+                  Amazon held it {buyBox.amazonShare.toFixed(0)}% of the time
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <ProfitCalculator key={`${result.domainId}:${result.asin}`} result={result} />
+
+        {product && (
+          <>
+            <HistoryRangePicker
+              range={range}
+              earliest={windowStart}
+              windowLabel={lookbackLabel(result.lookback)}
+              onChange={setRange}
+            />
+            <SalesRankChart product={product} window={result.lookback} range={range} onRangeChange={setRange} />
+            <PriceHistoryChart product={product} window={result.lookback} range={range} onRangeChange={setRange} />
+          </>
+        )}
+
+        {result.categoryRanks && result.categoryRanks.length > 0 && (
+          <CategoryRanksPanel ranks={result.categoryRanks} />
+        )}
+
+        {result.buyBox && (
+          <BuyBoxPanel history={result.buyBox} domainId={result.domainId} />
+        )}
+
+        {result.offers && (
+          <OffersPanel summary={result.offers} domainId={result.domainId} />
+        )}
+
+        {result.serverStats && (
+          <ServerStatsPanel stats={result.serverStats} domainId={result.domainId} />
+        )}
+
+        {/* Additional Info */}
+        <div className="pt-4 border-t border-gray-200 space-y-3">
+          <p className="text-sm text-gray-500">
+            Last updated: {result.lastUpdated}
+            {result.priceWindow && ` · window prices from ${result.priceWindow.basis === 'keepa' ? 'Keepa stats' : 'price history'}`}
+          </p>
+          {product?.stats && (
+            <StatsConsistencyPanel product={product} window={result.lookback} />
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
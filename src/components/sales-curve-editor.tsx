@@ -0,0 +1,111 @@
+import { useState } from 'react'
+import { Settings2 } from 'lucide-react'
+import { Button } from './ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Textarea } from './ui/textarea'
+import { useSalesCurves } from '../hooks/use-sales-curves'
+import { DEFAULT_CURVE, formatCurveText, parseCurveText, salesCurveStore } from '../lib/sales-curves'
+
+interface SalesCurveEditorProps {
+  // Category to open on; a curve is created for it on save if none exists yet
+  category: string
+}
+
+export function SalesCurveEditor({ category }: SalesCurveEditorProps) {
+  const curves = useSalesCurves()
+  const [open, setOpen] = useState(false)
+  const [selected, setSelected] = useState(category)
+  const [text, setText] = useState('')
+  const [invalid, setInvalid] = useState(false)
+
+  const categories = [...new Set([DEFAULT_CURVE, category, ...Object.keys(curves)])]
+
+  const load = (name: string) => {
+    setSelected(name)
+    setText(formatCurveText(curves[name] ?? curves[DEFAULT_CURVE] ?? []))
+    setInvalid(false)
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) load(category)
+    setOpen(next)
+  }
+
+  const handleSave = () => {
+    const points = parseCurveText(text)
+    if (!points) {
+      setInvalid(true)
+      return
+    }
+    salesCurveStore.setCurve(selected, points)
+    setOpen(false)
+  }
+
+  const handleReset = () => {
+    salesCurveStore.reset()
+    setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button type="button" className="inline-flex items-center gap-1 text-xs text-primary hover:underline">
+          <Settings2 className="h-3 w-3" />
+          Edit curve
+        </button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rank-to-Sales Curves</DialogTitle>
+          <DialogDescription>
+            One "rank, units per month" pair per line. Values between anchors are interpolated on a log scale.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Select value={selected} onValueChange={load}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}{curves[name] ? '' : ' (new)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value)
+              setInvalid(false)
+            }}
+            className="font-mono min-h-48"
+          />
+          {invalid && (
+            <p className="text-xs text-red-600">Enter at least two lines of positive "rank, units" numbers.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={handleReset}>
+            Reset all to defaults
+          </Button>
+          <Button type="button" onClick={handleSave}>
+            Save curve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,47 @@
+import { ShoppingCart } from 'lucide-react'
+import { SalesCurveEditor } from './sales-curve-editor'
+import { useSalesCurves } from '../hooks/use-sales-curves'
+import type { ValueRangeStats } from '../lib/range-stats'
+import { DEFAULT_CURVE } from '../lib/sales-curves'
+import { estimateMonthlySales, estimateRangeSales, formatUnits } from '../lib/sales-estimate'
+import { CATEGORY_NOT_AVAILABLE, type SalesRankData } from '../lib/sales-rank'
+
+interface SalesEstimateTileProps {
+  result: SalesRankData
+  // Date range picked on the history charts and its rank; the estimate follows it when set
+  range?: { label: string; rank?: ValueRangeStats }
+}
+
+export function SalesEstimateTile({ result, range }: SalesEstimateTileProps) {
+  const curves = useSalesCurves()
+  // Without a real category there is nothing to keep a curve for, so the default one is edited
+  const curveCategory = result.category && result.category !== CATEGORY_NOT_AVAILABLE ? result.category : DEFAULT_CURVE
+  const estimate = range
+    ? range.rank && estimateRangeSales(result.category, range.rank, curves)
+    : estimateMonthlySales(result, curves)
+
+  return (
+    <div className="p-4 bg-violet-50 rounded-lg border border-violet-200">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-600">
+            Est. Monthly Sales{range && ` (${range.label})`}
+          </p>
+          <p className="text-2xl font-bold text-violet-700">
+            {estimate ? `~${formatUnits(estimate.monthlySales)}` : 'N/A'}
+          </p>
+        </div>
+        <ShoppingCart className="h-8 w-8 text-violet-400" />
+      </div>
+      {estimate && (
+        <p className="text-xs text-violet-700 mt-1">
+          {formatUnits(estimate.low)}–{formatUnits(estimate.high)} units · {estimate.confidence} confidence
+        </p>
+      )}
+      <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+        <span className="truncate">{estimate?.curve ?? curveCategory} curve</span>
+        <SalesCurveEditor category={curveCategory} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+import { Brush, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { ChartLine } from 'lucide-react'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from './ui/chart'
+import { buildRankHistory, brushIndices, formatChartDate, rangeFromBrush } from '../lib/history-chart'
+import type { KeepaProduct } from '../lib/keepa/schemas'
+import { lookbackLabel, type LookbackWindow } from '../lib/lookback'
+import type { DateRange } from '../lib/series-stats'
+
+interface SalesRankChartProps {
+  product: KeepaProduct
+  window: LookbackWindow
+  // Zoomed-in part of the window, shared with the other history charts
+  range?: DateRange
+  onRangeChange: (range: DateRange | undefined) => void
+}
+
+const chartConfig = {
+  rank: { label: 'Sales Rank', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig
+
+export function SalesRankChart({ product, window, range, onRangeChange }: SalesRankChartProps) {
+  const rows = buildRankHistory(product, window)
+  const ranked = rows.filter((row) => row.rank !== null)
+  const { startIndex, endIndex } = brushIndices(rows, range)
+  const span = rows.length > 0 ? rows[endIndex].time - rows[startIndex].time : 0
+
+  return (
+    <div>
+      <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-2">
+        <ChartLine className="h-4 w-4" />
+        Sales Rank History ({lookbackLabel(window)})
+      </h3>
+      {ranked.length > 0 ? (
+        <>
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <LineChart data={rows} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(time: number) => formatChartDate(time, span)}
+              />
+              <YAxis
+                reversed
+                width={56}
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(rank: number) => `#${rank.toLocaleString()}`}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => new Date(payload[0]?.payload.time).toLocaleString()}
+                    formatter={(value) => (
+                      <span className="font-mono font-medium tabular-nums">
+                        #{Number(value).toLocaleString()}
+                      </span>
+                    )}
+                  />
+                }
+              />
+              <Line
+                dataKey="rank"
+                type="stepAfter"
+                stroke="var(--color-rank)"
+                strokeWidth={2}
+                dot={false}
+                connectNulls={false}
+                isAnimationActive={false}
+              />
+              <Brush
+                dataKey="time"
+                height={24}
+                stroke="hsl(var(--primary))"
+                startIndex={startIndex}
+                endIndex={endIndex}
+                tickFormatter={(time: number) => new Date(time).toLocaleDateString()}
+                onChange={(selection) => onRangeChange(rangeFromBrush(rows, selection.startIndex, selection.endIndex))}
+              />
+            </LineChart>
+          </ChartContainer>
+          <p className="text-xs text-gray-500 mt-1">
+            Better ranks plot higher. Breaks in the line are stretches where the product had no rank.
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">Keepa has no sales rank history for this window.</p>
+      )}
+    </div>
+  )
+}
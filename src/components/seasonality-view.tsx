@@ -0,0 +1,212 @@
+import { useMemo, useState } from 'react'
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { CalendarDays, Loader2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from './ui/chart'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Tabs, TabsList, TabsTrigger } from './ui/tabs'
+import { formatPrice } from '../lib/currency'
+import type { KeepaClient } from '../lib/keepa/client'
+import type { KeepaProduct } from '../lib/keepa/schemas'
+import { estimateProductCost } from '../lib/keepa/tokens'
+import type { LookbackWindow } from '../lib/lookback'
+import { MIN_MONTHS_PER_YEAR, buildSeasonality, fetchFullHistory, type SeasonalMetric } from '../lib/seasonality'
+import { cn } from '../lib/utils'
+
+interface SeasonalityViewProps {
+  client: KeepaClient
+  product: KeepaProduct
+  // Window the product was fetched with; all-time lookups already carry the full history
+  lookback: LookbackWindow
+  onError: (err: unknown, fallback?: string) => void
+}
+
+// Most recent year first, so the current year always gets the strongest color
+const YEAR_COLORS = [
+  'hsl(var(--chart-1))',
+  'hsl(var(--chart-2))',
+  'hsl(var(--chart-3))',
+  'hsl(var(--chart-4))',
+  'hsl(var(--chart-5))',
+]
+const OLDER_YEAR_COLOR = 'hsl(0 0% 70%)'
+
+const formatIndex = (index: number | undefined) => (index === undefined ? '—' : index.toFixed(0))
+
+// Stronger than usual months in green, weaker in red
+const indexTone = (index: number | undefined) => {
+  if (index === undefined) return 'text-gray-400'
+  if (index >= 110) return 'text-green-700 font-semibold'
+  if (index <= 90) return 'text-red-700'
+  return 'text-gray-700'
+}
+
+export function SeasonalityView({ client, product, lookback, onError }: SeasonalityViewProps) {
+  const [history, setHistory] = useState<KeepaProduct | null>(lookback === 'all' ? product : null)
+  const [loading, setLoading] = useState(false)
+  const [metric, setMetric] = useState<SeasonalMetric>('rank')
+  const [hidden, setHidden] = useState<string[]>([])
+
+  const seasonality = useMemo(() => (history ? buildSeasonality(history) : null), [history])
+
+  const handleLoad = async () => {
+    setLoading(true)
+    try {
+      setHistory(await fetchFullHistory(client, product))
+    } catch (err) {
+      onError(err, 'Failed to load the full history from Keepa API')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const overlay = seasonality?.[metric]
+  const chartConfig = Object.fromEntries(
+    [...(overlay?.years ?? [])].reverse().map((year, i) => [year, { label: year, color: YEAR_COLORS[i] ?? OLDER_YEAR_COLOR }]),
+  ) satisfies ChartConfig
+
+  const formatValue = (value: number) =>
+    metric === 'rank' ? `#${Math.round(value).toLocaleString()}` : formatPrice(value, product.domainId)
+
+  const toggle = (key: string) =>
+    setHidden((current) => (current.includes(key) ? current.filter((k) => k !== key) : [...current, key]))
+
+  return (
+    <Card className="mt-8 animate-slide-up">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Seasonality
+        </CardTitle>
+        <CardDescription>
+          Each calendar year's rank and price on a shared Jan–Dec axis, from Keepa's full history
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!seasonality && (
+          <div className="flex flex-wrap items-center gap-3">
+            <Button type="button" variant="outline" disabled={loading} onClick={handleLoad}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Load full history
+            </Button>
+            <p className="text-xs text-gray-500">
+              Estimated cost: {estimateProductCost({ asinCount: 1 })} token
+            </p>
+          </div>
+        )}
+
+        {seasonality && overlay && (
+          <>
+            <Tabs value={metric} onValueChange={(value) => setMetric(value as SeasonalMetric)}>
+              <TabsList>
+                <TabsTrigger value="rank">Sales Rank</TabsTrigger>
+                <TabsTrigger value="price">Price{seasonality.priceSource && ` (${seasonality.priceSource})`}</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {overlay.years.length > 0 ? (
+              <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+                <LineChart data={overlay.rows} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="day"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(day: number) => new Date(day).toLocaleDateString(undefined, { month: 'short' })}
+                  />
+                  <YAxis
+                    reversed={metric === 'rank'}
+                    domain={['auto', 'auto']}
+                    width={64}
+                    tickFormatter={formatValue}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) =>
+                          new Date(payload[0]?.payload.day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                        formatter={(value, name, item) => (
+                          <>
+                            <div className="h-2.5 w-2.5 shrink-0 rounded-[2px]" style={{ backgroundColor: item.color }} />
+                            <div className="flex flex-1 justify-between gap-4 leading-none">
+                              <span className="text-muted-foreground">{name}</span>
+                              <span className="font-mono font-medium tabular-nums text-foreground">
+                                {formatValue(Number(value))}
+                              </span>
+                            </div>
+                          </>
+                        )}
+                      />
+                    }
+                  />
+                  <ChartLegend content={<ChartLegendContent onItemClick={toggle} />} />
+                  {overlay.years.map((year) => (
+                    <Line
+                      key={year}
+                      dataKey={year}
+                      type="stepAfter"
+                      stroke={`var(--color-${year})`}
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls={false}
+                      hide={hidden.includes(year)}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-sm text-gray-500">Keepa has no {metric === 'rank' ? 'sales rank' : 'price'} history for this product.</p>
+            )}
+
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-2">Seasonality Index</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    {seasonality.months.map((month) => (
+                      <TableHead key={month.month} className="text-right">{month.label}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell className="font-medium whitespace-nowrap">Sales</TableCell>
+                    {seasonality.months.map((month) => (
+                      <TableCell key={month.month} className={cn('text-right tabular-nums', indexTone(month.rankIndex))}>
+                        {formatIndex(month.rankIndex)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                  <TableRow>
+                    <TableCell className="font-medium whitespace-nowrap">Price</TableCell>
+                    {seasonality.months.map((month) => (
+                      <TableCell key={month.month} className="text-right tabular-nums text-gray-700">
+                        {formatIndex(month.priceIndex)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableBody>
+              </Table>
+              <p className="text-xs text-gray-500 mt-2">
+                100 is an average month. Sales is based on the sales rank, so above 100 means the product ranked better than
+                usual that month. Built from {seasonality.rankYears.length > 0 ? seasonality.rankYears.join(', ') : 'no years yet'}
+                {' '}(years count once they have data in {MIN_MONTHS_PER_YEAR} months).
+              </p>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
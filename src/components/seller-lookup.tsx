@@ -0,0 +1,184 @@
+import { useState } from 'react'
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { List, Loader2, Search, Star, UserSearch } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from './ui/chart'
+import { Checkbox } from './ui/checkbox'
+import { Input } from './ui/input'
+import { getMarketplace } from '../lib/keepa/domains'
+import type { KeepaClient } from '../lib/keepa/client'
+import { estimateProductCost, estimateSellerCost } from '../lib/keepa/tokens'
+import { formatSellerId, lookupSeller, validateSellerId, type SellerProfile } from '../lib/seller-lookup'
+
+interface SellerLookupProps {
+  client: KeepaClient
+  domainId: number
+  hasApiKey: boolean
+  onError: (err: unknown, fallback?: string) => void
+  // Storefront ASINs, handed to the bulk lookup for rank and price
+  onCheckAsins: (asins: string[], domainId: number) => void
+}
+
+const chartConfig = {
+  rating: { label: 'Positive %', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig
+
+export function SellerLookup({ client, domainId, hasApiKey, onError, onCheckAsins }: SellerLookupProps) {
+  const [sellerId, setSellerId] = useState('')
+  const [includeStorefront, setIncludeStorefront] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [profile, setProfile] = useState<SellerProfile | null>(null)
+
+  const marketplace = getMarketplace(domainId)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const formatted = formatSellerId(sellerId)
+    if (!validateSellerId(formatted)) {
+      onError('Please enter a valid Amazon seller ID, e.g. A2L77EE7U53NWQ')
+      return
+    }
+    if (!hasApiKey) {
+      onError('Please enter your Keepa API key')
+      return
+    }
+
+    setLoading(true)
+    setProfile(null)
+    try {
+      setProfile(await lookupSeller(client, domainId, formatted, includeStorefront))
+    } catch (err) {
+      onError(err, 'Failed to fetch seller from Keepa API')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const ratingData = profile?.ratingHistory
+    .filter((point) => point.value !== null)
+    .map((point) => ({ time: point.time.getTime(), rating: point.value }))
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserSearch className="h-5 w-5" />
+          Seller Lookup
+        </CardTitle>
+        <CardDescription>
+          Look up a {marketplace.host} seller's feedback and, optionally, every ASIN in their storefront
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label htmlFor="sellerId" className="text-sm font-medium text-gray-700">
+              Seller ID
+            </label>
+            <Input
+              id="sellerId"
+              placeholder="e.g., A2L77EE7U53NWQ"
+              value={sellerId}
+              onChange={(e) => setSellerId(e.target.value)}
+              className="font-mono md:w-80"
+            />
+            <div className="flex items-center gap-2 pt-1">
+              <Checkbox
+                id="includeStorefront"
+                checked={includeStorefront}
+                onCheckedChange={(checked) => setIncludeStorefront(checked === true)}
+              />
+              <label htmlFor="includeStorefront" className="text-sm text-gray-700">
+                Include storefront ASIN list
+              </label>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <Button type="submit" disabled={loading}>
+              {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+              Look Up Seller
+            </Button>
+            <p className="text-xs text-gray-500">
+              Estimated cost: {estimateSellerCost(1, includeStorefront)} tokens
+            </p>
+          </div>
+        </form>
+
+        {profile && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="p-4 bg-primary/5 rounded-lg border border-primary/20">
+                <p className="text-sm font-medium text-gray-600">Seller</p>
+                <p className="text-lg font-semibold text-primary truncate">{profile.name}</p>
+                <p className="text-xs font-mono text-gray-500">{profile.sellerId}</p>
+              </div>
+              <div className="p-4 bg-amber-50 rounded-lg border border-amber-200">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">Rating</p>
+                    <p className="text-lg font-semibold text-amber-700">
+                      {profile.rating === undefined ? 'N/A' : `${profile.rating}% positive`}
+                    </p>
+                  </div>
+                  <Star className="h-8 w-8 text-amber-400" />
+                </div>
+              </div>
+              <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
+                <p className="text-sm font-medium text-gray-600">Rating Count</p>
+                <p className="text-lg font-semibold text-blue-700">
+                  {profile.ratingCount === undefined ? 'N/A' : profile.ratingCount.toLocaleString()}
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-2">Rating History</h3>
+              {ratingData && ratingData.length > 1 ? (
+                <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+                  <LineChart data={ratingData} margin={{ left: 0, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      scale="time"
+                      domain={['dataMin', 'dataMax']}
+                      tickFormatter={(time: number) => new Date(time).toLocaleDateString()}
+                    />
+                    <YAxis domain={[0, 100]} width={32} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent labelFormatter={(_, payload) => new Date(payload[0]?.payload.time).toLocaleDateString()} />}
+                    />
+                    <Line dataKey="rating" type="stepAfter" stroke="var(--color-rating)" dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              ) : (
+                <p className="text-sm text-gray-500">Keepa has no rating history for this seller yet.</p>
+              )}
+            </div>
+
+            {profile.storefront && (
+              <div className="flex flex-wrap items-center gap-3">
+                <p className="text-sm text-gray-700">
+                  {profile.storefront.asins.length.toLocaleString()} storefront ASINs
+                  {profile.storefront.total !== undefined && profile.storefront.total > profile.storefront.asins.length
+                    && ` (of ${profile.storefront.total.toLocaleString()} listed)`}
+                </p>
+                {profile.storefront.asins.length > 0 && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => onCheckAsins(profile.storefront!.asins, profile.domainId)}
+                  >
+                    <List className="mr-2 h-4 w-4" />
+                    Check All ({estimateProductCost({ asinCount: profile.storefront.asins.length })} tokens)
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
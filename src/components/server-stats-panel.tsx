@@ -0,0 +1,60 @@
+import { formatPrice } from '../lib/currency'
+import type { ServerStats } from '../lib/sales-rank'
+
+interface ServerStatsPanelProps {
+  stats: ServerStats
+  domainId: number
+}
+
+const formatRank = (rank?: number) => (rank === undefined ? 'N/A' : `#${Math.round(rank).toLocaleString()}`)
+const formatCount = (count?: number) => (count === undefined ? 'N/A' : count.toLocaleString())
+
+export function ServerStatsPanel({ stats, domainId }: ServerStatsPanelProps) {
+  const rows: { label: string; values: [string, string][] }[] = [
+    {
+      label: `${stats.source} price`,
+      values: [
+        ['Current', formatPrice(stats.current, domainId)],
+        ['Avg 30d', formatPrice(stats.avg30, domainId)],
+        ['Avg 90d', formatPrice(stats.avg90, domainId)],
+        ['Avg 180d', formatPrice(stats.avg180, domainId)],
+        ['Out of stock', stats.outOfStockPercentage === undefined ? 'N/A' : `${stats.outOfStockPercentage}%`],
+      ],
+    },
+    {
+      label: 'Sales rank',
+      values: [
+        ['Avg 30d', formatRank(stats.rankAvg30)],
+        ['Avg 90d', formatRank(stats.rankAvg90)],
+        ['Avg 180d', formatRank(stats.rankAvg180)],
+      ],
+    },
+    {
+      label: 'Rank drops',
+      values: [
+        ['30 days', formatCount(stats.salesRankDrops30)],
+        ['90 days', formatCount(stats.salesRankDrops90)],
+        ['180 days', formatCount(stats.salesRankDrops180)],
+      ],
+    },
+  ]
+
+  return (
+    <div>
+      <h3 className="font-semibold text-gray-900 mb-2">Keepa Stats</h3>
+      <div className="space-y-3">
+        {rows.map((row) => (
+          <div key={row.label} className="grid grid-cols-2 md:grid-cols-6 gap-2 text-sm">
+            <p className="font-medium text-gray-600 col-span-2 md:col-span-1">{row.label}</p>
+            {row.values.map(([label, value]) => (
+              <div key={label}>
+                <p className="text-xs text-gray-500">{label}</p>
+                <p className="font-semibold text-gray-900">{value}</p>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
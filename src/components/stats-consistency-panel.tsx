@@ -0,0 +1,57 @@
+import { useMemo } from 'react'
+import { Bug, CheckCircle2, ChevronDown, XCircle } from 'lucide-react'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import type { KeepaProduct } from '../lib/keepa/schemas'
+import type { LookbackWindow } from '../lib/lookback'
+import { checkStatsConsistency } from '../lib/stats-consistency'
+
+interface StatsConsistencyPanelProps {
+  product: KeepaProduct
+  window: LookbackWindow
+}
+
+const formatRaw = (value?: number) => (value === undefined ? '—' : Math.round(value).toLocaleString())
+
+// Debug view comparing Keepa's server stats with the same figures recomputed from history
+export function StatsConsistencyPanel({ product, window }: StatsConsistencyPanelProps) {
+  const rows = useMemo(() => checkStatsConsistency(product, window), [product, window])
+  const mismatches = rows.filter((row) => !row.ok).length
+
+  return (
+    <Collapsible>
+      <CollapsibleTrigger className="flex items-center gap-2 text-sm text-gray-500 hover:text-gray-900">
+        <Bug className="h-4 w-4" />
+        Stats consistency check ({mismatches === 0 ? 'all match' : `${mismatches} mismatched`})
+        <ChevronDown className="h-4 w-4" />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-3">
+        <p className="text-xs text-gray-500 mb-2">Raw Keepa units: prices in the smallest currency unit, ranks as positions.</p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Series</TableHead>
+              <TableHead>Metric</TableHead>
+              <TableHead className="text-right">Keepa stats</TableHead>
+              <TableHead className="text-right">From history</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={`${row.series}-${row.metric}`}>
+                <TableCell>{row.series}</TableCell>
+                <TableCell>{row.metric}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatRaw(row.server)}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatRaw(row.history)}</TableCell>
+                <TableCell>
+                  {row.ok ? <CheckCircle2 className="h-4 w-4 text-green-600" /> : <XCircle className="h-4 w-4 text-red-600" />}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
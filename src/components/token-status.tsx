@@ -0,0 +1,35 @@
+import { Coins, Loader2, RefreshCw } from 'lucide-react'
+import { Button } from './ui/button'
+import { formatWait, type KeepaTokenSnapshot } from '../lib/keepa/tokens'
+
+interface TokenStatusProps {
+  tokens: KeepaTokenSnapshot
+  refreshing: boolean
+  onRefresh?: () => void
+}
+
+export function TokenStatus({ tokens, refreshing, onRefresh }: TokenStatusProps) {
+  const known = tokens.tokensLeft !== undefined
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-sm">
+      <Coins className="h-4 w-4 text-amber-600" />
+      <div className="leading-tight">
+        <p className="font-semibold text-gray-900">
+          {known ? `${Math.floor(tokens.tokensLeft!).toLocaleString()} tokens` : 'Tokens unknown'}
+        </p>
+        <p className="text-xs text-gray-500">
+          {known && tokens.refillRate !== undefined
+            ? `+${tokens.refillRate}/min · next in ${formatWait(tokens.refillIn ?? 0)}`
+            : 'Enter a key and refresh'}
+          {tokens.queued > 0 && ` · ${tokens.queued} queued (${tokens.queuedCost} tokens)`}
+        </p>
+      </div>
+      {onRefresh && (
+        <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={onRefresh} disabled={refreshing}>
+          {refreshing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -264,10 +264,11 @@ const ChartLegendContent = React.forwardRef<
     Pick<RechartsPrimitive.LegendProps, "payload" | "verticalAlign"> & {
       hideIcon?: boolean
       nameKey?: string
+      onItemClick?: (dataKey: string) => void
     }
 >(
   (
-    { className, hideIcon = false, payload, verticalAlign = "bottom", nameKey },
+    { className, hideIcon = false, payload, verticalAlign = "bottom", nameKey, onItemClick },
     ref
   ) => {
     const { config } = useChart()
@@ -288,12 +289,18 @@ const ChartLegendContent = React.forwardRef<
         {payload.map((item) => {
           const key = `${nameKey || item.dataKey || "value"}`
           const itemConfig = getPayloadConfigFromPayload(config, item, key)
+          const Item = onItemClick ? "button" : "div"
 
           return (
-            <div
+            <Item
               key={item.value}
+              {...(onItemClick && {
+                type: "button" as const,
+                onClick: () => onItemClick(String(item.dataKey)),
+              })}
               className={cn(
-                "flex items-center gap-1.5 [&>svg]:h-3 [&>svg]:w-3 [&>svg]:text-muted-foreground"
+                "flex items-center gap-1.5 [&>svg]:h-3 [&>svg]:w-3 [&>svg]:text-muted-foreground",
+                item.inactive && "opacity-40"
               )}
             >
               {itemConfig?.icon && !hideIcon ? (
@@ -307,7 +314,7 @@ const ChartLegendContent = React.forwardRef<
                 />
               )}
               {itemConfig?.label}
-            </div>
+            </Item>
           )
         })}
       </div>
@@ -0,0 +1,140 @@
+import { useState } from 'react'
+import { Grid3x3, Loader2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { formatPrice } from '../lib/currency'
+import type { KeepaClient } from '../lib/keepa/client'
+import type { KeepaProduct } from '../lib/keepa/schemas'
+import { estimateProductCost } from '../lib/keepa/tokens'
+import type { LookbackWindow } from '../lib/lookback'
+import { cn } from '../lib/utils'
+import {
+  buildVariationMatrix,
+  cellKey,
+  fetchVariationFamily,
+  variationFamily,
+  type VariationFamily,
+  type VariationStats,
+} from '../lib/variations'
+
+interface VariationExplorerProps {
+  client: KeepaClient
+  product: KeepaProduct
+  lookback: LookbackWindow
+  onError: (err: unknown, fallback?: string) => void
+  // Opens a child in the regular result card
+  onOpen: (asin: string, domainId: number) => void
+}
+
+export function VariationExplorer({ client, product, lookback, onError, onOpen }: VariationExplorerProps) {
+  const [loading, setLoading] = useState(false)
+  const [loaded, setLoaded] = useState<{ family: VariationFamily, stats: Record<string, VariationStats> } | null>(null)
+
+  const family = loaded?.family ?? variationFamily(product)
+  if (!family) return null
+
+  const matrix = buildVariationMatrix(family.children)
+  // Without a sibling list the parent has to be fetched first, so the count is unknown
+  const estimatedCost = family.children.length > 0 ? estimateProductCost({ asinCount: family.children.length }) : undefined
+
+  const handleLoad = async () => {
+    setLoading(true)
+    try {
+      setLoaded(await fetchVariationFamily(client, product, lookback))
+    } catch (err) {
+      onError(err, 'Failed to load the variation family from Keepa API')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const renderChild = (asin: string) => {
+    const stats = loaded?.stats[asin]
+    return (
+      <button
+        key={asin}
+        type="button"
+        onClick={() => onOpen(asin, product.domainId)}
+        className={cn(
+          'w-full rounded-md border px-2 py-1 text-left text-xs hover:border-primary hover:bg-primary/5',
+          asin === product.asin ? 'border-primary bg-primary/10' : 'border-gray-200',
+        )}
+      >
+        <p className="font-mono font-medium text-gray-900">{asin}</p>
+        {stats && (
+          <div className="text-gray-600 tabular-nums">
+            <p>{stats.salesRank ? `#${stats.salesRank.toLocaleString()}` : 'No rank'} · {formatPrice(stats.price, product.domainId)}</p>
+            <p>
+              {stats.offerCount ?? '?'} offers · {stats.reviewCount?.toLocaleString() ?? '?'} reviews
+            </p>
+          </div>
+        )}
+      </button>
+    )
+  }
+
+  const renderCell = (asins: string[] | undefined) => {
+    if (!asins) return <span className="text-gray-300">—</span>
+    return <div className="space-y-1">{asins.map(renderChild)}</div>
+  }
+
+  return (
+    <Card className="mt-8 animate-slide-up">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Grid3x3 className="h-5 w-5" />
+          Variations
+        </CardTitle>
+        <CardDescription>
+          {family.children.length > 0 ? `${family.children.length} variations` : 'Part of a variation family'}
+          {family.parentAsin && <> · parent <span className="font-mono">{family.parentAsin}</span></>}
+          {' '}· click a variation to open it
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!loaded && (
+          <div className="flex flex-wrap items-center gap-3">
+            <Button type="button" variant="outline" disabled={loading} onClick={handleLoad}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Load rank, price and offers for every variation
+            </Button>
+            <p className="text-xs text-gray-500">
+              {estimatedCost === undefined
+                ? 'Costs 1 token for the parent plus 1 per variation'
+                : `Estimated cost: ${estimatedCost} tokens`}
+            </p>
+          </div>
+        )}
+
+        {matrix.rows.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>
+                  {matrix.rowDimension ?? 'ASIN'}
+                  {matrix.columnDimension && ` \\ ${matrix.columnDimension}`}
+                </TableHead>
+                {matrix.columns.map((column) => (
+                  <TableHead key={column}>{column || (matrix.rowDimension ? '' : 'Variation')}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {matrix.rows.map((row) => (
+                <TableRow key={row}>
+                  <TableCell className="font-medium">{row}</TableCell>
+                  {matrix.columns.map((column) => (
+                    <TableCell key={column} className="min-w-36">
+                      {renderCell(matrix.cells.get(cellKey(row, column)))}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,16 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import type { KeepaTokenScheduler, KeepaTokenSnapshot } from '@/lib/keepa/tokens'
+
+const TICK_MS = 1000
+
+// Live view of a scheduler's token balance, re-extrapolated every second for the refill countdown
+export function useKeepaTokens(scheduler: KeepaTokenScheduler): KeepaTokenSnapshot {
+  const snapshot = useSyncExternalStore(scheduler.subscribe, scheduler.getSnapshot)
+
+  useEffect(() => {
+    const interval = setInterval(() => scheduler.refresh(), TICK_MS)
+    return () => clearInterval(interval)
+  }, [scheduler])
+
+  return snapshot
+}
@@ -0,0 +1,33 @@
+import { useState } from 'react'
+import { fetchRootCategories, type CategoryNode } from '@/lib/categories'
+import type { KeepaClient } from '@/lib/keepa/client'
+
+interface RootCategories {
+  nodes: CategoryNode[]
+  loading: boolean
+  // Fetches the marketplace's root categories once (1 token); later calls are no-ops
+  load: () => Promise<void>
+}
+
+export function useRootCategories(
+  client: KeepaClient,
+  domainId: number,
+  onError: (err: unknown, fallback?: string) => void,
+): RootCategories {
+  const [roots, setRoots] = useState<{ domainId: number, nodes: CategoryNode[] } | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const load = async () => {
+    if (roots?.domainId === domainId || loading) return
+    setLoading(true)
+    try {
+      setRoots({ domainId, nodes: await fetchRootCategories(client, domainId) })
+    } catch (err) {
+      onError(err, 'Failed to load categories from Keepa API')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return { nodes: roots?.domainId === domainId ? roots.nodes : [], loading, load }
+}
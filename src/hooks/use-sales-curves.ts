@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react'
+import { salesCurveStore, type SalesCurves } from '@/lib/sales-curves'
+
+export function useSalesCurves(): SalesCurves {
+  return useSyncExternalStore(salesCurveStore.subscribe, salesCurveStore.getSnapshot)
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react'
+import { savedFinderQueryStore, type SavedFinderQuery } from '@/lib/product-finder'
+
+export function useSavedFinderQueries(): SavedFinderQuery[] {
+  return useSyncExternalStore(savedFinderQueryStore.subscribe, savedFinderQueryStore.getSnapshot)
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { parseAmazonUrl, parseAsinList } from './asin'
+
+const ASIN = 'B08N5WRWNW'
+
+describe('parseAmazonUrl', () => {
+  it.each([
+    ['/dp/', `https://www.amazon.com/dp/${ASIN}`],
+    ['/dp/product/', `https://www.amazon.com/dp/product/${ASIN}`],
+    ['/gp/product/', `https://www.amazon.com/gp/product/${ASIN}`],
+    ['/gp/aw/d/', `https://www.amazon.com/gp/aw/d/${ASIN}`],
+    ['/exec/obidos/ASIN/', `https://www.amazon.com/exec/obidos/ASIN/${ASIN}`],
+    ['/exec/obidos/tg/detail/-/', `https://www.amazon.com/exec/obidos/tg/detail/-/${ASIN}`],
+    ['an asin= query parameter', `https://www.amazon.com/gp/offer-listing?ie=UTF8&asin=${ASIN}`],
+    ['an ASIN= query parameter', `https://www.amazon.com/gp/offer-listing?ASIN=${ASIN}`],
+  ])('reads the ASIN from %s', (_, url) => {
+    expect(parseAmazonUrl(url)?.asin).toBe(ASIN)
+  })
+
+  it('reads the ASIN after a product slug', () => {
+    expect(parseAmazonUrl(`https://www.amazon.com/Echo-Dot-4th-Gen/dp/${ASIN}/ref=sr_1_1?keywords=echo`)?.asin).toBe(ASIN)
+  })
+
+  it('upper-cases the ASIN', () => {
+    expect(parseAmazonUrl(`https://www.amazon.com/dp/${ASIN.toLowerCase()}`)?.asin).toBe(ASIN)
+  })
+
+  it('accepts links without a scheme', () => {
+    expect(parseAmazonUrl(`amazon.com/dp/${ASIN}`)?.asin).toBe(ASIN)
+  })
+
+  it.each([
+    ['amazon.com', 1],
+    ['www.amazon.com', 1],
+    ['smile.amazon.com', 1],
+    ['m.amazon.com', 1],
+    ['www.amazon.co.uk', 2],
+    ['www.amazon.de', 3],
+    ['www.amazon.co.jp', 5],
+    ['www.amazon.com.mx', 11],
+  ])('pre-selects the marketplace for %s', (host, domainId) => {
+    expect(parseAmazonUrl(`https://${host}/dp/${ASIN}`)).toEqual({ asin: ASIN, domainId })
+  })
+
+  it('leaves the marketplace unset for an Amazon site Keepa does not cover', () => {
+    expect(parseAmazonUrl(`https://www.amazon.com.au/dp/${ASIN}`)).toEqual({ asin: ASIN, domainId: undefined })
+  })
+
+  it.each([
+    ['a non-Amazon host', `https://www.ebay.com/dp/${ASIN}`],
+    ['a host that only contains "amazon"', `https://www.notamazon.com/dp/${ASIN}`],
+    ['an Amazon URL in the path of another host', `https://example.com/amazon.com/dp/${ASIN}`],
+    ['a short link', 'https://amzn.to/3abcDEF'],
+    ['an Amazon page without an ASIN', 'https://www.amazon.com/gp/cart/view.html'],
+    ['a bare ASIN', ASIN],
+    ['text that is not a URL', 'amazon. com'],
+  ])('rejects %s', (_, input) => {
+    expect(parseAmazonUrl(input)).toBeUndefined()
+  })
+})
+
+describe('parseAsinList', () => {
+  it('mixes ASINs and product URLs and counts duplicates', () => {
+    const parsed = parseAsinList(`${ASIN}, https://www.amazon.de/dp/${ASIN}\nB07XJ8C8F5; not-an-asin`)
+    expect(parsed.valid).toEqual([ASIN, 'B07XJ8C8F5'])
+    expect(parsed.duplicates).toBe(1)
+    expect(parsed.invalid).toEqual(['not-an-asin'])
+  })
+})
@@ -0,0 +1,96 @@
+import { marketplaceForHost } from './keepa/domains'
+import { looksLikeProductCode, parseProductCode, type ProductCode } from './product-codes'
+
+// ASIN is typically 10 characters, alphanumeric
+const ASIN_REGEX = /^[A-Z0-9]{10}$/
+
+export function validateASIN(asin: string): boolean {
+  return ASIN_REGEX.test(asin.toUpperCase())
+}
+
+export function formatASIN(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+export interface ParsedAmazonUrl {
+  asin: string
+  // Undefined for Amazon sites Keepa doesn't cover
+  domainId?: number
+}
+
+// /dp/{ASIN}, /dp/product/{ASIN}, /gp/product/{ASIN}, /gp/aw/d/{ASIN}, /exec/obidos/ASIN/{ASIN},
+// /exec/obidos/tg/detail/-/{ASIN}, optionally after a slug (/Some-Product-Name/dp/{ASIN})
+const PATH_PATTERN = /\/(?:dp(?:\/product)?|gp\/product|gp\/aw\/d|exec\/obidos\/asin|exec\/obidos\/tg\/detail\/-)\/([a-z0-9]{10})(?:[/?#]|$)/i
+
+function toUrl(input: string): URL | undefined {
+  const text = input.trim()
+  if (!/amazon\./i.test(text)) return undefined
+  try {
+    return new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Pulls the ASIN and marketplace out of an Amazon product link. Returns undefined for anything
+ * that isn't an amazon.* URL with an ASIN in it; short links (amzn.to, a.co) need a redirect to
+ * resolve and aren't supported.
+ */
+export function parseAmazonUrl(input: string): ParsedAmazonUrl | undefined {
+  const url = toUrl(input)
+  if (!url || !/(^|\.)amazon\./i.test(url.hostname)) return undefined
+
+  const fromPath = PATH_PATTERN.exec(url.pathname)?.[1]
+  const fromQuery = [...url.searchParams].find(([name]) => name.toLowerCase() === 'asin')?.[1]
+  const asin = formatASIN(fromPath ?? fromQuery ?? '')
+  if (!validateASIN(asin)) return undefined
+
+  return { asin, domainId: marketplaceForHost(url.hostname)?.domainId }
+}
+
+export interface ParsedAsinList {
+  // Unique, valid ASINs in the order they first appeared
+  valid: string[]
+  // Unique UPC/EAN/ISBN-13 codes with a valid check digit, resolved to ASINs later
+  codes: ProductCode[]
+  // Entries that are neither a valid ASIN nor a valid code after formatting, as typed
+  invalid: string[]
+  duplicates: number
+}
+
+// Splits pasted or uploaded text on commas, whitespace and semicolons; accepts ASINs, product URLs and product codes
+export function parseAsinList(text: string): ParsedAsinList {
+  const seen = new Set<string>()
+  const valid: string[] = []
+  const codes: ProductCode[] = []
+  const invalid: string[] = []
+  let duplicates = 0
+
+  for (const entry of text.split(/[\s,;]+/)) {
+    if (!entry) continue
+    if (looksLikeProductCode(entry)) {
+      const code = parseProductCode(entry)
+      if (!code) {
+        invalid.push(entry)
+      } else if (seen.has(code.code)) {
+        duplicates++
+      } else {
+        seen.add(code.code)
+        codes.push(code)
+      }
+      continue
+    }
+    const asin = parseAmazonUrl(entry)?.asin ?? formatASIN(entry)
+    if (!validateASIN(asin)) {
+      invalid.push(entry)
+    } else if (seen.has(asin)) {
+      duplicates++
+    } else {
+      seen.add(asin)
+      valid.push(asin)
+    }
+  }
+
+  return { valid, codes, invalid, duplicates }
+}
@@ -0,0 +1,25 @@
+import type { KeepaClient } from './keepa/client'
+import { fromKeepaTime } from './keepa/time'
+
+export const BEST_SELLER_COUNTS = [10, 25, 50, 100] as const
+export const DEFAULT_BEST_SELLER_COUNT = 25
+
+export interface BestSellersList {
+  // Best selling first, trimmed to the requested count
+  asins: string[]
+  // When Keepa last refreshed the list, if it says
+  lastUpdate?: Date
+}
+
+export async function fetchBestSellers(
+  client: KeepaClient,
+  domainId: number,
+  categoryId: number,
+  count: number,
+): Promise<BestSellersList> {
+  const { bestSellersList } = await client.getBestSellers(domainId, categoryId)
+  return {
+    asins: (bestSellersList?.asinList ?? []).slice(0, count),
+    lastUpdate: bestSellersList?.lastUpdate ? fromKeepaTime(bestSellersList.lastUpdate) : undefined,
+  }
+}
@@ -0,0 +1,107 @@
+import { parseAsinList } from './asin'
+import { KEEPA_MAX_ASINS_PER_REQUEST, type KeepaClient } from './keepa/client'
+import { isFatalKeepaError } from './keepa/errors'
+import { lookbackDays, lookbackStart, type LookbackWindow } from './lookback'
+import { resolveProductCodes, type ProductCode } from './product-codes'
+import { buildSalesRankData, hasProductData, type SalesRankData } from './sales-rank'
+
+export type BulkRowStatus = 'pending' | 'ok' | 'invalid' | 'not-found' | 'error'
+
+export interface BulkRow {
+  // What the user typed, before formatting
+  input: string
+  // Empty until a product code row is resolved
+  asin: string
+  // Set when the row was entered as a UPC/EAN/ISBN-13 rather than an ASIN
+  code?: ProductCode
+  status: BulkRowStatus
+  data?: SalesRankData
+  error?: string
+}
+
+export interface BulkLookupOptions {
+  domainId: number
+  lookback: LookbackWindow
+  onProgress?: (rows: BulkRow[]) => void
+}
+
+// Rows for a pasted list: one pending row per unique valid ASIN, one invalid row per bad entry
+export function createBulkRows(text: string): BulkRow[] {
+  const { valid, codes, invalid } = parseAsinList(text)
+  return [
+    ...valid.map((asin): BulkRow => ({ input: asin, asin, status: 'pending' })),
+    ...codes.map((code): BulkRow => ({ input: code.code, asin: '', code, status: 'pending' })),
+    ...invalid.map((input): BulkRow => ({ input, asin: input, status: 'invalid', error: 'Not a valid ASIN, UPC or EAN' })),
+  ]
+}
+
+// Rows for ASINs that came from Keepa itself, in the order given
+export function createPendingRows(asins: string[]): BulkRow[] {
+  return asins.map((asin) => ({ input: asin, asin, status: 'pending' }))
+}
+
+/**
+ * Fetches every pending row in batches of up to 100 ASINs per Keepa call.
+ * Product code rows are resolved first; a code matching several ASINs becomes one row per ASIN.
+ * A failed batch only marks its own rows as errored and the remaining batches still run,
+ * unless the key itself is unusable: then every pending row is failed and the error is rethrown.
+ */
+export async function runBulkLookup(client: KeepaClient, rows: BulkRow[], options: BulkLookupOptions): Promise<BulkRow[]> {
+  let current = rows
+  const pending = rows.filter((row) => row.status === 'pending' && !row.code).map((row) => row.asin)
+  const codes = rows.filter((row) => row.status === 'pending' && row.code).map((row) => row.code!.code)
+  const since = lookbackStart(options.lookback)
+  const stats = lookbackDays(options.lookback)
+
+  const failPending = (message: string, codesOnly: boolean) => {
+    current = current.map((row) => (row.status === 'pending' && (!codesOnly || row.code) ? { ...row, status: 'error', error: message } : row))
+    options.onProgress?.(current)
+  }
+
+  if (codes.length > 0) {
+    try {
+      const matches = await resolveProductCodes(client, codes, { domain: options.domainId, since, stats })
+      current = current.flatMap((row): BulkRow[] => {
+        if (row.status !== 'pending' || !row.code) return [row]
+        const products = (matches.get(row.code.code) ?? []).filter(hasProductData)
+        if (products.length === 0) return [{ ...row, status: 'not-found', error: 'No ASIN matches this code' }]
+        return products.map((product) => ({
+          ...row,
+          asin: product.asin,
+          status: 'ok',
+          data: buildSalesRankData(product.asin, product, options.lookback, { productCode: row.code }),
+        }))
+      })
+      options.onProgress?.(current)
+    } catch (err) {
+      failPending(err instanceof Error ? err.message : 'Failed to fetch data from Keepa API', !isFatalKeepaError(err))
+      if (isFatalKeepaError(err)) throw err
+    }
+  }
+
+  const update = (asins: string[], patch: (asin: string) => Partial<BulkRow>) => {
+    const batch = new Set(asins)
+    current = current.map((row) => (row.status === 'pending' && batch.has(row.asin) ? { ...row, ...patch(row.asin) } : row))
+    options.onProgress?.(current)
+  }
+
+  for (let i = 0; i < pending.length; i += KEEPA_MAX_ASINS_PER_REQUEST) {
+    const batch = pending.slice(i, i + KEEPA_MAX_ASINS_PER_REQUEST)
+    try {
+      const response = await client.getProducts({ domain: options.domainId, asins: batch, since, stats })
+      const products = new Map(response.products.map((product) => [product.asin, product]))
+      update(batch, (asin) => {
+        const product = products.get(asin)
+        return product && hasProductData(product)
+          ? { status: 'ok', data: buildSalesRankData(asin, product, options.lookback) }
+          : { status: 'not-found', error: 'Product not found' }
+      })
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch data from Keepa API'
+      update(isFatalKeepaError(err) ? pending : batch, () => ({ status: 'error', error: message }))
+      if (isFatalKeepaError(err)) throw err
+    }
+  }
+
+  return current
+}
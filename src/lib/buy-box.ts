@@ -0,0 +1,150 @@
+import { toMajorUnits } from './currency'
+import { getMarketplace } from './keepa/domains'
+import type { KeepaProduct, KeepaSeller } from './keepa/schemas'
+import { fromKeepaTime } from './keepa/time'
+import { lookbackStart, type LookbackWindow } from './lookback'
+import type { DateRange } from './series-stats'
+
+// Placeholder seller IDs Keepa uses in buyBoxSellerIdHistory
+const NO_BUY_BOX = '-1'
+const UNKNOWN_SELLER = '-2'
+
+export interface BuyBoxSegment {
+  sellerId: string
+  start: Date
+  end: Date
+}
+
+export interface BuyBoxShare {
+  sellerId: string
+  label: string
+  // Percent of the window this seller held the Buy Box, 0-100
+  share: number
+  isAmazon: boolean
+  isFBA?: boolean
+  avgPrice?: number
+}
+
+export interface BuyBoxHistory {
+  segments: BuyBoxSegment[]
+  shares: BuyBoxShare[]
+  amazonShare: number
+  // 'keepa' when shares come from Keepa's buyBoxStats, 'history' when derived from the seller ID history
+  basis: 'keepa' | 'history'
+}
+
+function decodeSellerHistory(product: KeepaProduct): { time: Date; sellerId: string }[] {
+  const raw = product.buyBoxSellerIdHistory ?? []
+  const entries: { time: Date; sellerId: string }[] = []
+  for (let i = 0; i + 1 < raw.length; i += 2) {
+    entries.push({ time: fromKeepaTime(Number(raw[i])), sellerId: raw[i + 1] })
+  }
+  return entries
+}
+
+// Who held the Buy Box when, clipped to the range (open ends run to the first entry and to now);
+// the holder at the range start is carried in
+export function buildBuyBoxSegments(product: KeepaProduct, range: DateRange, now = Date.now()): BuyBoxSegment[] {
+  const entries = decodeSellerHistory(product)
+  const rangeEnd = range.end && range.end.getTime() < now ? range.end : new Date(now)
+  const segments: BuyBoxSegment[] = []
+  entries.forEach((entry, i) => {
+    const segmentStart = range.start && entry.time < range.start ? range.start : entry.time
+    const next = entries[i + 1]?.time
+    const segmentEnd = next && next < rangeEnd ? next : rangeEnd
+    if (segmentEnd > segmentStart) {
+      segments.push({ sellerId: entry.sellerId, start: segmentStart, end: segmentEnd })
+    }
+  })
+  return segments
+}
+
+function sellerLabel(sellerId: string, amazonSellerId: string | undefined, sellers: Record<string, KeepaSeller>): string {
+  if (sellerId === NO_BUY_BOX) return 'No Buy Box'
+  if (sellerId === UNKNOWN_SELLER) return 'Unknown seller'
+  if (sellerId === amazonSellerId) return 'Amazon'
+  return sellers[sellerId]?.sellerName ?? sellerId
+}
+
+// Percent of the segments' total time each seller held the Buy Box
+function segmentShares(segments: BuyBoxSegment[]): [sellerId: string, share: number][] {
+  const durations = new Map<string, number>()
+  let total = 0
+  for (const segment of segments) {
+    const ms = segment.end.getTime() - segment.start.getTime()
+    durations.set(segment.sellerId, (durations.get(segment.sellerId) ?? 0) + ms)
+    total += ms
+  }
+  return [...durations].map(([sellerId, ms]) => [sellerId, total > 0 ? (ms / total) * 100 : 0])
+}
+
+const amazonShareOf = (shares: BuyBoxShare[]) =>
+  shares.filter((share) => share.isAmazon).reduce((sum, share) => sum + share.share, 0)
+
+export function buildBuyBoxHistory(
+  product: KeepaProduct,
+  window: LookbackWindow,
+  sellers: Record<string, KeepaSeller> = {},
+  now = Date.now(),
+): BuyBoxHistory | undefined {
+  const amazonSellerId = getMarketplace(product.domainId).amazonSellerId
+  const segments = buildBuyBoxSegments(product, { start: lookbackStart(window, now) }, now)
+  const serverStats = product.stats?.buyBoxStats
+  if (segments.length === 0 && !serverStats) return undefined
+
+  const toShare = (sellerId: string, share: number, extra: Partial<BuyBoxShare> = {}): BuyBoxShare => ({
+    sellerId,
+    label: sellerLabel(sellerId, amazonSellerId, sellers),
+    share,
+    isAmazon: sellerId === amazonSellerId,
+    ...extra,
+  })
+
+  let shares: BuyBoxShare[]
+  let basis: BuyBoxHistory['basis']
+  if (serverStats) {
+    basis = 'keepa'
+    shares = Object.entries(serverStats).map(([sellerId, stats]) => toShare(sellerId, stats.percentageWon, {
+      isFBA: stats.isFBA ?? undefined,
+      avgPrice: stats.avgPrice != null && stats.avgPrice > 0 ? toMajorUnits(stats.avgPrice, product.domainId) : undefined,
+    }))
+  } else {
+    basis = 'history'
+    shares = segmentShares(segments).map(([sellerId, share]) => toShare(sellerId, share))
+  }
+
+  shares.sort((a, b) => b.share - a.share)
+  return {
+    segments,
+    shares,
+    amazonShare: amazonShareOf(shares),
+    basis,
+  }
+}
+
+/**
+ * Shares over a date range picked on the history charts. Keepa's buyBoxStats only cover the whole
+ * window, so these always come from the seller ID history. Seller names are reused from the
+ * window's shares, which were built with the seller lookup.
+ */
+export function buildRangeBuyBoxShares(
+  product: KeepaProduct,
+  history: BuyBoxHistory,
+  range: DateRange,
+  now = Date.now(),
+): Pick<BuyBoxHistory, 'shares' | 'amazonShare'> | undefined {
+  const segments = buildBuyBoxSegments(product, range, now)
+  if (segments.length === 0) return undefined
+
+  const amazonSellerId = getMarketplace(product.domainId).amazonSellerId
+  const names = new Map(history.shares.map((share) => [share.sellerId, share.label]))
+  const shares = segmentShares(segments)
+    .map(([sellerId, share]): BuyBoxShare => ({
+      sellerId,
+      label: names.get(sellerId) ?? sellerLabel(sellerId, amazonSellerId, {}),
+      share,
+      isAmazon: sellerId === amazonSellerId,
+    }))
+    .sort((a, b) => b.share - a.share)
+  return { shares, amazonShare: amazonShareOf(shares) }
+}
@@ -0,0 +1,97 @@
+import type { KeepaClient } from './keepa/client'
+import { decodeValueHistory, lastKnownPoint } from './keepa/csv'
+import type { KeepaProduct } from './keepa/schemas'
+import { readJson, writeJson } from './storage'
+
+export interface CategoryNode {
+  catId: number
+  name: string
+}
+
+export interface CategoryRank {
+  catId: number
+  name?: string
+  rank: number
+  // The category Keepa reports as the product's main sales rank
+  isReference: boolean
+}
+
+export type CategoryNames = Record<number, string>
+
+const STORAGE_KEY = 'category-names'
+
+// Category names rarely change, so they are cached per marketplace across sessions
+let cache = readJson<Record<string, string>>(STORAGE_KEY, {})
+
+const cacheKey = (domainId: number, catId: number) => `${domainId}:${catId}`
+
+function remember(domainId: number, names: CategoryNames) {
+  const entries = Object.entries(names).map(([catId, name]) => [cacheKey(domainId, Number(catId)), name])
+  if (entries.length === 0) return
+  cache = { ...cache, ...Object.fromEntries(entries) }
+  writeJson(STORAGE_KEY, cache)
+}
+
+export function cachedCategoryName(domainId: number, catId: number): string | undefined {
+  return cache[cacheKey(domainId, catId)]
+}
+
+export function categoryPath(product: KeepaProduct): CategoryNode[] {
+  return product.categoryTree ?? []
+}
+
+// Category IDs the product ranks in whose names are neither in its tree nor in the cache
+export function unnamedCategoryIds(product: KeepaProduct): number[] {
+  const inTree = new Set(categoryPath(product).map((node) => node.catId))
+  return Object.keys(product.salesRanks ?? {})
+    .map(Number)
+    .filter((catId) => !inTree.has(catId) && !cachedCategoryName(product.domainId, catId))
+}
+
+/**
+ * Looks up names through Keepa's category endpoint (one token per call) and caches them.
+ * Names already known from the product's own category tree are cached for free.
+ */
+export async function resolveCategoryNames(client: KeepaClient, product: KeepaProduct): Promise<CategoryNames> {
+  remember(product.domainId, Object.fromEntries(categoryPath(product).map((node) => [node.catId, node.name])))
+
+  const missing = unnamedCategoryIds(product)
+  if (missing.length > 0) {
+    const response = await client.getCategories(product.domainId, missing)
+    remember(product.domainId, Object.fromEntries(Object.values(response.categories).map((c) => [c.catId, c.name])))
+  }
+
+  return Object.fromEntries(
+    Object.keys(product.salesRanks ?? {})
+      .map((catId) => [Number(catId), cachedCategoryName(product.domainId, Number(catId))])
+      .filter((entry): entry is [number, string] => entry[1] !== undefined),
+  )
+}
+
+// Every category rank the product currently holds, the reference category first, then best rank first
+export function buildCategoryRanks(product: KeepaProduct, names: CategoryNames = {}): CategoryRank[] {
+  const treeNames = new Map(categoryPath(product).map((node) => [node.catId, node.name]))
+  const ranks: CategoryRank[] = []
+
+  for (const [key, history] of Object.entries(product.salesRanks ?? {})) {
+    const catId = Number(key)
+    const rank = lastKnownPoint(decodeValueHistory(history))?.value
+    if (rank == null) continue
+    ranks.push({
+      catId,
+      name: names[catId] ?? treeNames.get(catId) ?? cachedCategoryName(product.domainId, catId),
+      rank,
+      isReference: catId === product.salesRankReference,
+    })
+  }
+
+  return ranks.sort((a, b) => Number(b.isReference) - Number(a.isReference) || a.rank - b.rank)
+}
+
+// Keepa returns every root category of a marketplace for the pseudo category 0
+export async function fetchRootCategories(client: KeepaClient, domainId: number): Promise<CategoryNode[]> {
+  const response = await client.getCategories(domainId, [0])
+  const roots = Object.values(response.categories).map(({ catId, name }) => ({ catId, name }))
+  remember(domainId, Object.fromEntries(roots.map((node) => [node.catId, node.name])))
+  return roots.sort((a, b) => a.name.localeCompare(b.name))
+}
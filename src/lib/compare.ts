@@ -0,0 +1,82 @@
+import { toMajorUnits } from './currency'
+import type { KeepaClient } from './keepa/client'
+import { decodeRankSeries, type KeepaPoint } from './keepa/csv'
+import type { KeepaProduct } from './keepa/schemas'
+import { buildHistoryRows, type HistoryRow } from './history-chart'
+import { lookbackDays, lookbackStart, type LookbackWindow } from './lookback'
+import { buildSalesRankData, hasProductData, quotedPriceSeries, type SalesRankData } from './sales-rank'
+import { clipSeries } from './series-stats'
+
+export const MIN_COMPARE_ASINS = 2
+export const MAX_COMPARE_ASINS = 8
+
+export interface ComparedProduct {
+  product: KeepaProduct
+  data: SalesRankData
+}
+
+export interface Comparison {
+  // In the order the ASINs were entered
+  products: ComparedProduct[]
+  // ASINs Keepa returned no data for
+  missing: string[]
+}
+
+export async function fetchComparison(
+  client: KeepaClient,
+  domainId: number,
+  asins: string[],
+  window: LookbackWindow,
+): Promise<Comparison> {
+  const response = await client.getProducts({
+    domain: domainId,
+    asins,
+    since: lookbackStart(window),
+    stats: lookbackDays(window),
+  })
+  const byAsin = new Map(response.products.filter(hasProductData).map((product) => [product.asin, product]))
+  const products: ComparedProduct[] = []
+  const missing: string[] = []
+  for (const asin of asins) {
+    const product = byAsin.get(asin)
+    if (product) {
+      products.push({ product, data: buildSalesRankData(asin, product, window) })
+    } else {
+      missing.push(asin)
+    }
+  }
+  return { products, missing }
+}
+
+// Sales rank of every product, one row field per ASIN
+export function buildCompareRankRows(products: KeepaProduct[], window: LookbackWindow, now = Date.now()): HistoryRow[] {
+  const series = Object.fromEntries(products.map((product) => [product.asin, decodeRankSeries(product)]))
+  return buildHistoryRows(series, { start: lookbackStart(window, now) }, now)
+}
+
+/**
+ * Quoted price of every product, one row field per ASIN. Normalized prices are the percent
+ * change from each product's first price in the window, so listings at different price points
+ * can share an axis.
+ */
+export function buildComparePriceRows(
+  products: KeepaProduct[],
+  window: LookbackWindow,
+  normalized: boolean,
+  now = Date.now(),
+): HistoryRow[] {
+  const range = { start: lookbackStart(window, now) }
+  const series: Record<string, KeepaPoint[]> = {}
+  for (const product of products) {
+    const quoted = quotedPriceSeries(product, range)
+    if (!quoted) continue
+    // Price in effect at the window start, carried in if it was set before it
+    const base = clipSeries(quoted.points, range).find((point) => point.value)?.value ?? quoted.summary.average
+    series[product.asin] = quoted.points.map((point) => {
+      if (point.value === null) return point
+      const value = normalized ? (point.value / base - 1) * 100 : toMajorUnits(point.value, product.domainId)
+      return { ...point, value }
+    })
+  }
+  return buildHistoryRows(series, range, now)
+}
@@ -0,0 +1,28 @@
+import { getMarketplace } from './keepa/domains'
+
+const formatters = new Map<number, Intl.NumberFormat>()
+
+function formatterFor(domainId: number): Intl.NumberFormat {
+  let formatter = formatters.get(domainId)
+  if (!formatter) {
+    const { currency, locale } = getMarketplace(domainId)
+    formatter = new Intl.NumberFormat(locale, { style: 'currency', currency })
+    formatters.set(domainId, formatter)
+  }
+  return formatter
+}
+
+// Keepa prices are in the currency's smallest unit: cents for USD, whole yen for JPY
+export function toMajorUnits(minorUnits: number, domainId: number): number {
+  const digits = formatterFor(domainId).resolvedOptions().maximumFractionDigits ?? 2
+  return minorUnits / 10 ** digits
+}
+
+export function toMinorUnits(majorUnits: number, domainId: number): number {
+  const digits = formatterFor(domainId).resolvedOptions().maximumFractionDigits ?? 2
+  return Math.round(majorUnits * 10 ** digits)
+}
+
+export function formatPrice(amount: number | undefined, domainId: number): string {
+  return amount === undefined ? 'N/A' : formatterFor(domainId).format(amount)
+}
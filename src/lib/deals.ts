@@ -0,0 +1,94 @@
+import type { KeepaClient, KeepaDealSelection } from './keepa/client'
+import { KEEPA_CSV_SERIES, KeepaCsvType } from './keepa/csv'
+import type { KeepaDeal } from './keepa/schemas'
+import { fromKeepaTime } from './keepa/time'
+
+export const DEAL_WINDOWS = [
+  { value: 0, label: 'Last 24 hours' },
+  { value: 1, label: 'Last 7 days' },
+  { value: 2, label: 'Last 30 days' },
+  { value: 3, label: 'Last 90 days' },
+] as const
+
+export const DEAL_PRICE_TYPES = [KeepaCsvType.AMAZON, KeepaCsvType.NEW, KeepaCsvType.BUY_BOX_SHIPPING] as const
+
+export type DealPriceType = (typeof DEAL_PRICE_TYPES)[number]
+
+export const dealPriceLabel = (type: DealPriceType) => KEEPA_CSV_SERIES[type].label
+
+// Index into a deal's avg/delta arrays
+const MONTH = 2
+const THREE_MONTHS = 3
+
+export interface DealFilters {
+  categoryId?: number
+  // Minimum drop against the window's average, in percent
+  minDropPercent: number
+  maxRank?: number
+  dateRange: number
+  priceType: DealPriceType
+}
+
+export const DEFAULT_DEAL_FILTERS: DealFilters = {
+  minDropPercent: 20,
+  dateRange: 0,
+  priceType: KeepaCsvType.AMAZON,
+}
+
+export interface DealDrop {
+  average: number
+  // Average minus current, in the smallest currency unit; positive is cheaper
+  amount: number
+  percent: number
+}
+
+export interface Deal {
+  asin: string
+  title: string
+  current?: number
+  salesRank?: number
+  vs30?: DealDrop
+  vs90?: DealDrop
+  foundAt?: Date
+}
+
+export function toDealSelection(domainId: number, filters: DealFilters): KeepaDealSelection {
+  return {
+    domainId,
+    page: 0,
+    priceTypes: [filters.priceType],
+    dateRange: filters.dateRange,
+    includeCategories: filters.categoryId === undefined ? undefined : [filters.categoryId],
+    deltaPercentRange: [filters.minDropPercent, 100],
+    salesRankRange: filters.maxRank === undefined ? undefined : [1, filters.maxRank],
+    sortType: 4,
+    isFilterEnabled: true,
+    isRangeEnabled: true,
+  }
+}
+
+const known = (value: number | undefined) => (value === undefined || value < 0 ? undefined : value)
+
+function dropAgainst(current: number | undefined, average: number | undefined): DealDrop | undefined {
+  if (current === undefined || !average) return undefined
+  const amount = average - current
+  return { average, amount, percent: (amount / average) * 100 }
+}
+
+export function buildDeal(deal: KeepaDeal, priceType: DealPriceType): Deal {
+  const current = known(deal.current[priceType])
+  return {
+    asin: deal.asin,
+    title: deal.title || 'Title Not Available',
+    current,
+    salesRank: known(deal.current[KeepaCsvType.SALES_RANK]),
+    vs30: dropAgainst(current, known(deal.avg[MONTH]?.[priceType])),
+    vs90: dropAgainst(current, known(deal.avg[THREE_MONTHS]?.[priceType])),
+    foundAt: deal.creationDate ? fromKeepaTime(deal.creationDate) : undefined,
+  }
+}
+
+export async function fetchDeals(client: KeepaClient, domainId: number, filters: DealFilters): Promise<Deal[]> {
+  const response = await client.getDeals(toDealSelection(domainId, filters))
+  return (response.deals?.dr ?? []).map((deal) => buildDeal(deal, filters.priceType))
+}
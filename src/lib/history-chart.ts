@@ -0,0 +1,113 @@
+import { toMajorUnits } from './currency'
+import { KEEPA_CSV_SERIES, KeepaCsvType, decodePriceSeries, decodeRankSeries, type KeepaPoint } from './keepa/csv'
+import type { KeepaProduct } from './keepa/schemas'
+import { lookbackStart, type LookbackWindow } from './lookback'
+import { clipSeries, type DateRange } from './series-stats'
+
+// One chart row per change time; each series holds the value in effect then, null while in a gap
+export interface HistoryRow {
+  time: number
+  [series: string]: number | null
+}
+
+/**
+ * Merges decoded series into rows for a step chart. Keepa values persist until the next change,
+ * so every row carries each series' current value forward. When a series drops into a gap, a row
+ * with the values from just before is repeated at the gap's start so the last step is drawn to it
+ * instead of stopping at the previous change. A closing row extends every series to the range end.
+ */
+export function buildHistoryRows(
+  series: Record<string, KeepaPoint[]>,
+  range: DateRange = {},
+  now = Date.now(),
+): HistoryRow[] {
+  const keys = Object.keys(series)
+  const clipped = keys.map((key) => clipSeries(series[key], range))
+  const times = [...new Set(clipped.flatMap((points) => points.map((point) => point.time.getTime())))].sort((a, b) => a - b)
+  if (times.length === 0) return []
+
+  const cursors = keys.map(() => 0)
+  const rows: HistoryRow[] = []
+  let previous: HistoryRow | undefined
+
+  for (const time of times) {
+    const row: HistoryRow = { time }
+    let opensGap = false
+    keys.forEach((key, k) => {
+      const points = clipped[k]
+      while (cursors[k] < points.length && points[cursors[k]].time.getTime() <= time) cursors[k]++
+      const value = cursors[k] > 0 ? points[cursors[k] - 1].value : null
+      row[key] = value
+      if (value === null && previous?.[key] != null) opensGap = true
+    })
+    if (opensGap && previous) rows.push({ ...previous, time })
+    rows.push(row)
+    previous = row
+  }
+
+  const end = Math.min(range.end?.getTime() ?? now, now)
+  if (previous && end > previous.time) rows.push({ ...previous, time: end })
+  return rows
+}
+
+// Sales rank over the lookback window, as rows with a `rank` value
+export function buildRankHistory(product: KeepaProduct, window: LookbackWindow, now = Date.now()): HistoryRow[] {
+  return buildHistoryRows({ rank: decodeRankSeries(product) }, { start: lookbackStart(window, now) }, now)
+}
+
+// Price series the price chart offers, keyed by the row field they fill
+export const PRICE_CHART_SERIES = [
+  { key: 'amazon', type: KeepaCsvType.AMAZON },
+  { key: 'buyBox', type: KeepaCsvType.BUY_BOX_SHIPPING },
+  { key: 'new', type: KeepaCsvType.NEW },
+  { key: 'used', type: KeepaCsvType.USED },
+  { key: 'listPrice', type: KeepaCsvType.LIST_PRICE },
+].map((series) => ({ ...series, label: KEEPA_CSV_SERIES[series.type].label }))
+
+export interface PriceHistory {
+  // Keys of the series that have at least one price in the window
+  keys: string[]
+  // Prices in major currency units
+  rows: HistoryRow[]
+}
+
+export function buildPriceHistory(product: KeepaProduct, window: LookbackWindow, now = Date.now()): PriceHistory {
+  const range = { start: lookbackStart(window, now) }
+  const series: Record<string, KeepaPoint[]> = {}
+  for (const { key, type } of PRICE_CHART_SERIES) {
+    const points = decodePriceSeries(product, type)
+    if (!clipSeries(points, range).some((point) => point.value !== null)) continue
+    series[key] = points.map((point) => ({
+      ...point,
+      value: point.value === null ? null : toMajorUnits(point.value, product.domainId),
+    }))
+  }
+  return { keys: Object.keys(series), rows: buildHistoryRows(series, range, now) }
+}
+
+// Short tick labels: day and month for spans up to a quarter, month and year beyond that
+export function formatChartDate(time: number, spanMs: number): string {
+  const options: Intl.DateTimeFormatOptions = spanMs <= 100 * 24 * 60 * 60 * 1000
+    ? { month: 'short', day: 'numeric' }
+    : { month: 'short', year: '2-digit' }
+  return new Date(time).toLocaleDateString(undefined, options)
+}
+
+// Rows a chart Brush spans for a range: from the row in effect at its start to the first at or past its end
+export function brushIndices(rows: HistoryRow[], range: DateRange | undefined): { startIndex: number, endIndex: number } {
+  const last = rows.length - 1
+  if (!range) return { startIndex: 0, endIndex: last }
+  const startMs = range.start?.getTime() ?? -Infinity
+  const endMs = range.end?.getTime() ?? Infinity
+  const after = rows.findIndex((row) => row.time > startMs)
+  const startIndex = after === -1 ? last : Math.max(after - 1, 0)
+  const reached = rows.findIndex((row) => row.time >= endMs)
+  const endIndex = reached === -1 ? last : Math.max(reached, startIndex)
+  return { startIndex, endIndex }
+}
+
+// Range a Brush selection covers; undefined once it spans every row again
+export function rangeFromBrush(rows: HistoryRow[], startIndex = 0, endIndex = rows.length - 1): DateRange | undefined {
+  if (startIndex <= 0 && endIndex >= rows.length - 1) return undefined
+  return { start: new Date(rows[startIndex].time), end: new Date(rows[endIndex].time) }
+}
@@ -0,0 +1,291 @@
+import type { z } from 'zod'
+import {
+  KeepaApiError,
+  KeepaError,
+  KeepaNetworkError,
+  KeepaParseError,
+  KeepaProductNotFoundError,
+  KeepaResponseError,
+  KeepaSellerNotFoundError,
+  errorForStatus,
+} from './errors'
+import { DEFAULT_RETRY_POLICY, withRetry, type RetryPolicy } from './retry'
+import {
+  keepaBestSellersResponseSchema,
+  keepaCategoryResponseSchema,
+  keepaDealResponseSchema,
+  keepaErrorBodySchema,
+  keepaProductResponseSchema,
+  keepaQueryResponseSchema,
+  keepaResponseBaseSchema,
+  keepaSellerResponseSchema,
+  type KeepaBestSellersResponse,
+  type KeepaCategoryResponse,
+  type KeepaDealResponse,
+  type KeepaProduct,
+  type KeepaProductResponse,
+  type KeepaQueryResponse,
+  type KeepaSeller,
+  type KeepaSellerResponse,
+  type KeepaTokenStatus,
+} from './schemas'
+import { toKeepaTime } from './time'
+import {
+  BEST_SELLERS_COST,
+  DEALS_COST,
+  estimateProductCost,
+  estimateQueryCost,
+  estimateSellerCost,
+  type KeepaTokenScheduler,
+} from './tokens'
+
+const DEFAULT_BASE_URL = 'https://api.keepa.com'
+
+export const KEEPA_MAX_ASINS_PER_REQUEST = 100
+export const KEEPA_MAX_SELLERS_PER_REQUEST = 100
+export const KEEPA_MIN_QUERY_PAGE_SIZE = 50
+
+type QueryValue = string | number | boolean | undefined
+
+export interface KeepaClientOptions {
+  apiKey: string
+  baseUrl?: string
+  fetch?: typeof fetch
+  // Shared token budget; when set, every billable request waits its turn in this queue
+  scheduler?: KeepaTokenScheduler
+  // Backoff for transient failures (server errors, network drops, out of tokens); false disables retries
+  retry?: RetryPolicy | false
+}
+
+export interface KeepaProductRequest {
+  domain: number
+  asins: string[]
+  history?: boolean
+  // Only return history newer than this date
+  since?: Date
+  // Ask Keepa for server-side stats over the last N days
+  stats?: number
+  // Fetch up to this many marketplace offers (20-100), with stock
+  offers?: number
+  // Include Buy Box seller history and per-seller share
+  buybox?: boolean
+}
+
+type QueryRange = `${'current_SALES' | 'current_NEW' | 'current_COUNT_NEW' | 'current_RATING'}_${'gte' | 'lte'}`
+
+// Product Finder selection; prices are in the smallest currency unit and ratings are 10-50
+export type KeepaProductSelection = Partial<Record<QueryRange, number>> & {
+  rootCategory?: number[]
+  brand?: string[]
+  // 0 = Amazon offer in stock and shippable
+  availabilityAmazon?: number[]
+  sort?: [field: string, order: 'asc' | 'desc'][]
+  // At least 50
+  perPage?: number
+  page?: number
+}
+
+// Deals selection; ranges are [min, max] and prices are in the smallest currency unit
+export interface KeepaDealSelection {
+  domainId: number
+  page?: number
+  // KeepaCsvType values to look for drops in
+  priceTypes: number[]
+  // 0 day, 1 week, 2 month, 3 three months
+  dateRange: number
+  includeCategories?: number[]
+  deltaPercentRange?: [number, number]
+  salesRankRange?: [number, number]
+  // 1 newest, 2 absolute drop, 3 sales rank, 4 percent drop
+  sortType?: number
+  isFilterEnabled?: boolean
+  isRangeEnabled?: boolean
+}
+
+/**
+ * Thin, framework-free wrapper around the Keepa REST API.
+ * Every response is validated with zod, so callers get typed data or a KeepaError.
+ */
+export class KeepaClient {
+  private readonly apiKey: string
+  private readonly baseUrl: string
+  private readonly fetchImpl: typeof fetch
+  private readonly scheduler?: KeepaTokenScheduler
+  private readonly retryPolicy: RetryPolicy
+
+  constructor(options: KeepaClientOptions) {
+    this.apiKey = options.apiKey.trim()
+    this.baseUrl = options.baseUrl ?? DEFAULT_BASE_URL
+    this.fetchImpl = options.fetch ?? fetch.bind(globalThis)
+    this.scheduler = options.scheduler
+    this.retryPolicy = options.retry === false
+      ? { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+      : options.retry ?? DEFAULT_RETRY_POLICY
+  }
+
+  async getProducts(request: KeepaProductRequest): Promise<KeepaProductResponse> {
+    if (request.asins.length > KEEPA_MAX_ASINS_PER_REQUEST) {
+      throw new KeepaError(`Keepa accepts at most ${KEEPA_MAX_ASINS_PER_REQUEST} ASINs per request`)
+    }
+    return this.request('product', {
+      ...this.productParams(request),
+      asin: request.asins.join(','),
+    }, keepaProductResponseSchema, estimateProductCost({
+      asinCount: request.asins.length,
+      offers: request.offers,
+      buybox: request.buybox,
+    }))
+  }
+
+  // UPC, EAN or ISBN-13 codes; every ASIN a code matches comes back, so the cost is a lower bound
+  async getProductsByCode(codes: string[], request: Omit<KeepaProductRequest, 'asins'>): Promise<KeepaProductResponse> {
+    if (codes.length > KEEPA_MAX_ASINS_PER_REQUEST) {
+      throw new KeepaError(`Keepa accepts at most ${KEEPA_MAX_ASINS_PER_REQUEST} product codes per request`)
+    }
+    return this.request('product', {
+      ...this.productParams(request),
+      code: codes.join(','),
+    }, keepaProductResponseSchema, estimateProductCost({
+      asinCount: codes.length,
+      offers: request.offers,
+      buybox: request.buybox,
+    }))
+  }
+
+  async getProduct(asin: string, request: Omit<KeepaProductRequest, 'asins'>): Promise<KeepaProduct> {
+    const response = await this.getProducts({ ...request, asins: [asin] })
+    const product = response.products.find((p) => p.asin === asin) ?? response.products[0]
+    if (!product) {
+      throw new KeepaProductNotFoundError(asin)
+    }
+    return product
+  }
+
+  async getCategories(domain: number, categoryIds: number[], parents = false): Promise<KeepaCategoryResponse> {
+    return this.request('category', {
+      domain,
+      category: categoryIds.join(','),
+      parents,
+    }, keepaCategoryResponseSchema, 1)
+  }
+
+  async getSellers(domain: number, sellerIds: string[], storefront = false): Promise<KeepaSellerResponse> {
+    return this.request('seller', {
+      domain,
+      seller: sellerIds.join(','),
+      storefront: storefront || undefined,
+    }, keepaSellerResponseSchema, estimateSellerCost(sellerIds.length, storefront))
+  }
+
+  async getSeller(domain: number, sellerId: string, storefront = false): Promise<KeepaSeller> {
+    const response = await this.getSellers(domain, [sellerId], storefront)
+    const seller = response.sellers[sellerId]
+    if (!seller) {
+      throw new KeepaSellerNotFoundError(sellerId)
+    }
+    return seller
+  }
+
+  async findProducts(domain: number, selection: KeepaProductSelection): Promise<KeepaQueryResponse> {
+    return this.request('query', {
+      domain,
+      selection: JSON.stringify(selection),
+    }, keepaQueryResponseSchema, estimateQueryCost(selection.perPage ?? KEEPA_MIN_QUERY_PAGE_SIZE))
+  }
+
+  async getBestSellers(domain: number, categoryId: number): Promise<KeepaBestSellersResponse> {
+    return this.request('bestsellers', {
+      domain,
+      category: categoryId,
+    }, keepaBestSellersResponseSchema, BEST_SELLERS_COST)
+  }
+
+  async getDeals(selection: KeepaDealSelection): Promise<KeepaDealResponse> {
+    return this.request('deal', {
+      selection: JSON.stringify(selection),
+    }, keepaDealResponseSchema, DEALS_COST)
+  }
+
+  // Free, and never queued behind other requests
+  async getTokenStatus(): Promise<KeepaTokenStatus> {
+    return withRetry(() => this.send('token', {}, keepaResponseBaseSchema), this.retryPolicy)
+  }
+
+  private productParams(request: Omit<KeepaProductRequest, 'asins'>): Record<string, QueryValue> {
+    return {
+      domain: request.domain,
+      history: request.history ?? true,
+      since: request.since ? toKeepaTime(request.since) : undefined,
+      stats: request.stats,
+      offers: request.offers,
+      stock: request.offers ? true : undefined,
+      buybox: request.buybox,
+    }
+  }
+
+  private buildUrl(endpoint: string, params: Record<string, QueryValue>): string {
+    const url = new URL(endpoint, `${this.baseUrl}/`)
+    url.searchParams.set('key', this.apiKey)
+    for (const [name, value] of Object.entries(params)) {
+      if (value === undefined) continue
+      url.searchParams.set(name, typeof value === 'boolean' ? (value ? '1' : '0') : String(value))
+    }
+    return url.toString()
+  }
+
+  private async request<T extends z.ZodType>(
+    endpoint: string,
+    params: Record<string, QueryValue>,
+    schema: T,
+    cost: number,
+  ): Promise<z.infer<T>> {
+    const send = () => withRetry(() => this.send(endpoint, params, schema), this.retryPolicy)
+    return this.scheduler ? this.scheduler.schedule(cost, send) : send()
+  }
+
+  private async send<T extends z.ZodType>(
+    endpoint: string,
+    params: Record<string, QueryValue>,
+    schema: T,
+  ): Promise<z.infer<T>> {
+    let response: Response
+    try {
+      response = await this.fetchImpl(this.buildUrl(endpoint, params))
+    } catch {
+      throw new KeepaNetworkError(typeof navigator !== 'undefined' && navigator.onLine === false)
+    }
+
+    if (!response.ok) {
+      // Keepa still reports the token balance on errors, which tells us how long a 429 lasts
+      const errorBody: unknown = await response.json().catch(() => undefined)
+      const errorBase = keepaResponseBaseSchema.safeParse(errorBody)
+      if (errorBase.success) {
+        this.scheduler?.observe(errorBase.data)
+      }
+      const errorInfo = keepaErrorBodySchema.safeParse(errorBody)
+      throw errorForStatus(response.status, errorInfo.success ? errorInfo.data : undefined)
+    }
+
+    let body: unknown
+    try {
+      body = await response.json()
+    } catch {
+      throw new KeepaParseError(endpoint)
+    }
+
+    const base = keepaResponseBaseSchema.safeParse(body)
+    if (base.success) {
+      this.scheduler?.observe(base.data)
+    }
+    if (base.success && base.data.error) {
+      const { type, message, details } = base.data.error
+      throw new KeepaApiError(message ?? type ?? 'Keepa API error', type, details)
+    }
+
+    const parsed = schema.safeParse(body)
+    if (!parsed.success) {
+      throw new KeepaResponseError(endpoint, parsed.error.issues)
+    }
+    return parsed.data
+  }
+}
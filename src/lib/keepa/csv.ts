@@ -0,0 +1,190 @@
+import type { KeepaProduct } from './schemas'
+import { fromKeepaTime } from './time'
+
+/**
+ * Indices into Keepa's `product.csv` array. Each index holds one history series.
+ * Never read `product.csv[n]` directly; go through these names and the decoders below.
+ */
+export const KeepaCsvType = {
+  AMAZON: 0,
+  NEW: 1,
+  USED: 2,
+  SALES_RANK: 3,
+  LIST_PRICE: 4,
+  COLLECTIBLE: 5,
+  REFURBISHED: 6,
+  NEW_FBM_SHIPPING: 7,
+  LIGHTNING_DEAL: 8,
+  WAREHOUSE: 9,
+  NEW_FBA: 10,
+  COUNT_NEW: 11,
+  COUNT_USED: 12,
+  COUNT_REFURBISHED: 13,
+  COUNT_COLLECTIBLE: 14,
+  EXTRA_INFO_UPDATES: 15,
+  RATING: 16,
+  COUNT_REVIEWS: 17,
+  BUY_BOX_SHIPPING: 18,
+  USED_NEW_SHIPPING: 19,
+  USED_VERY_GOOD_SHIPPING: 20,
+  USED_GOOD_SHIPPING: 21,
+  USED_ACCEPTABLE_SHIPPING: 22,
+  COLLECTIBLE_NEW_SHIPPING: 23,
+  COLLECTIBLE_VERY_GOOD_SHIPPING: 24,
+  COLLECTIBLE_GOOD_SHIPPING: 25,
+  COLLECTIBLE_ACCEPTABLE_SHIPPING: 26,
+  REFURBISHED_SHIPPING: 27,
+  EBAY_NEW_SHIPPING: 28,
+  EBAY_USED_SHIPPING: 29,
+  TRADE_IN: 30,
+  RENT: 31,
+  BUY_BOX_USED_SHIPPING: 32,
+  PRIME_EXCLUSIVE: 33,
+} as const
+
+export type KeepaCsvType = (typeof KeepaCsvType)[keyof typeof KeepaCsvType]
+
+// price: smallest currency unit, rank: position, count: integer, rating: 0-50 (stars x 10),
+// event: only the timestamps are meaningful
+export type KeepaSeriesKind = 'price' | 'rank' | 'count' | 'rating' | 'event'
+
+interface KeepaSeriesInfo {
+  label: string
+  kind: KeepaSeriesKind
+  // Series suffixed _SHIPPING are stored as [time, price, shipping] triplets
+  withShipping: boolean
+}
+
+const series = (label: string, kind: KeepaSeriesKind, withShipping = false): KeepaSeriesInfo => ({
+  label,
+  kind,
+  withShipping,
+})
+
+export const KEEPA_CSV_SERIES: Record<KeepaCsvType, KeepaSeriesInfo> = {
+  [KeepaCsvType.AMAZON]: series('Amazon', 'price'),
+  [KeepaCsvType.NEW]: series('New', 'price'),
+  [KeepaCsvType.USED]: series('Used', 'price'),
+  [KeepaCsvType.SALES_RANK]: series('Sales Rank', 'rank'),
+  [KeepaCsvType.LIST_PRICE]: series('List Price', 'price'),
+  [KeepaCsvType.COLLECTIBLE]: series('Collectible', 'price'),
+  [KeepaCsvType.REFURBISHED]: series('Refurbished', 'price'),
+  [KeepaCsvType.NEW_FBM_SHIPPING]: series('New, 3rd Party FBM', 'price', true),
+  [KeepaCsvType.LIGHTNING_DEAL]: series('Lightning Deal', 'price'),
+  [KeepaCsvType.WAREHOUSE]: series('Warehouse Deals', 'price'),
+  [KeepaCsvType.NEW_FBA]: series('New, 3rd Party FBA', 'price'),
+  [KeepaCsvType.COUNT_NEW]: series('New Offer Count', 'count'),
+  [KeepaCsvType.COUNT_USED]: series('Used Offer Count', 'count'),
+  [KeepaCsvType.COUNT_REFURBISHED]: series('Refurbished Offer Count', 'count'),
+  [KeepaCsvType.COUNT_COLLECTIBLE]: series('Collectible Offer Count', 'count'),
+  [KeepaCsvType.EXTRA_INFO_UPDATES]: series('Extra Info Updates', 'event'),
+  [KeepaCsvType.RATING]: series('Rating', 'rating'),
+  [KeepaCsvType.COUNT_REVIEWS]: series('Review Count', 'count'),
+  [KeepaCsvType.BUY_BOX_SHIPPING]: series('Buy Box', 'price', true),
+  [KeepaCsvType.USED_NEW_SHIPPING]: series('Used - Like New', 'price', true),
+  [KeepaCsvType.USED_VERY_GOOD_SHIPPING]: series('Used - Very Good', 'price', true),
+  [KeepaCsvType.USED_GOOD_SHIPPING]: series('Used - Good', 'price', true),
+  [KeepaCsvType.USED_ACCEPTABLE_SHIPPING]: series('Used - Acceptable', 'price', true),
+  [KeepaCsvType.COLLECTIBLE_NEW_SHIPPING]: series('Collectible - Like New', 'price', true),
+  [KeepaCsvType.COLLECTIBLE_VERY_GOOD_SHIPPING]: series('Collectible - Very Good', 'price', true),
+  [KeepaCsvType.COLLECTIBLE_GOOD_SHIPPING]: series('Collectible - Good', 'price', true),
+  [KeepaCsvType.COLLECTIBLE_ACCEPTABLE_SHIPPING]: series('Collectible - Acceptable', 'price', true),
+  [KeepaCsvType.REFURBISHED_SHIPPING]: series('Refurbished', 'price', true),
+  [KeepaCsvType.EBAY_NEW_SHIPPING]: series('eBay New', 'price', true),
+  [KeepaCsvType.EBAY_USED_SHIPPING]: series('eBay Used', 'price', true),
+  [KeepaCsvType.TRADE_IN]: series('Trade-In', 'price'),
+  [KeepaCsvType.RENT]: series('Rent', 'price'),
+  [KeepaCsvType.BUY_BOX_USED_SHIPPING]: series('Buy Box Used', 'price', true),
+  [KeepaCsvType.PRIME_EXCLUSIVE]: series('Prime Exclusive', 'price'),
+}
+
+export interface KeepaPoint {
+  keepaTime: number
+  time: Date
+  // null marks a gap: no offer, out of stock or no rank at this time
+  value: number | null
+  // Only set for _SHIPPING series; value already includes it
+  shipping?: number
+}
+
+export function getCsvSeries(product: KeepaProduct, type: KeepaCsvType): number[] | null {
+  return product.csv?.[type] ?? null
+}
+
+function decodeRaw(raw: number[] | null, withShipping: boolean, normalize: (value: number) => number): KeepaPoint[] {
+  if (!raw) return []
+  const stride = withShipping ? 3 : 2
+  const points: KeepaPoint[] = []
+  for (let i = 0; i + stride - 1 < raw.length; i += stride) {
+    const keepaTime = raw[i]
+    const value = raw[i + 1]
+    const point: KeepaPoint = {
+      keepaTime,
+      time: fromKeepaTime(keepaTime),
+      value: value < 0 ? null : normalize(value),
+    }
+    if (withShipping) {
+      const shipping = Math.max(raw[i + 2], 0)
+      point.shipping = shipping
+      if (point.value !== null) point.value += shipping
+    }
+    points.push(point)
+  }
+  return points
+}
+
+const identity = (value: number) => value
+
+function assertKind(type: KeepaCsvType, kinds: KeepaSeriesKind[]): KeepaSeriesInfo {
+  const info = KEEPA_CSV_SERIES[type]
+  if (!kinds.includes(info.kind)) {
+    throw new Error(`Keepa series ${info.label} is a ${info.kind} series, not ${kinds.join('/')}`)
+  }
+  return info
+}
+
+// Prices in the marketplace's smallest currency unit, shipping included where Keepa tracks it
+export function decodePriceSeries(product: KeepaProduct, type: KeepaCsvType): KeepaPoint[] {
+  const info = assertKind(type, ['price'])
+  return decodeRaw(getCsvSeries(product, type), info.withShipping, identity)
+}
+
+export function decodeRankSeries(product: KeepaProduct, type: KeepaCsvType = KeepaCsvType.SALES_RANK): KeepaPoint[] {
+  assertKind(type, ['rank'])
+  return decodeRaw(getCsvSeries(product, type), false, identity)
+}
+
+export function decodeCountSeries(product: KeepaProduct, type: KeepaCsvType): KeepaPoint[] {
+  assertKind(type, ['count'])
+  return decodeRaw(getCsvSeries(product, type), false, identity)
+}
+
+// Ratings as stars, e.g. 45 -> 4.5
+export function decodeRatingSeries(product: KeepaProduct): KeepaPoint[] {
+  return decodeRaw(getCsvSeries(product, KeepaCsvType.RATING), false, (value) => value / 10)
+}
+
+export function decodeSeries(product: KeepaProduct, type: KeepaCsvType): KeepaPoint[] {
+  const info = KEEPA_CSV_SERIES[type]
+  const normalize = info.kind === 'rating' ? (value: number) => value / 10 : identity
+  return decodeRaw(getCsvSeries(product, type), info.withShipping, normalize)
+}
+
+// For [time, value] histories that live outside product.csv, e.g. product.salesRanks entries
+export function decodeValueHistory(raw: number[] | null | undefined): KeepaPoint[] {
+  return decodeRaw(raw ?? null, false, identity)
+}
+
+// Most recent point, or undefined if the series is empty or currently a gap
+export function latestPoint(points: KeepaPoint[]): KeepaPoint | undefined {
+  const last = points[points.length - 1]
+  return last && last.value !== null ? last : undefined
+}
+
+// Most recent non-gap point, however old
+export function lastKnownPoint(points: KeepaPoint[]): KeepaPoint | undefined {
+  for (let i = points.length - 1; i >= 0; i--) {
+    if (points[i].value !== null) return points[i]
+  }
+  return undefined
+}
@@ -0,0 +1,41 @@
+export interface KeepaMarketplace {
+  domainId: number
+  code: string
+  host: string
+  label: string
+  currency: string
+  locale: string
+  // Amazon's own retail seller ID on this marketplace, where known
+  amazonSellerId?: string
+}
+
+// Keepa domain IDs. 7 (amazon.cn) is no longer served by Keepa and is left out.
+export const KEEPA_MARKETPLACES: KeepaMarketplace[] = [
+  { domainId: 1, code: 'US', host: 'amazon.com', label: 'United States', currency: 'USD', locale: 'en-US', amazonSellerId: 'ATVPDKIKX0DER' },
+  { domainId: 2, code: 'GB', host: 'amazon.co.uk', label: 'United Kingdom', currency: 'GBP', locale: 'en-GB', amazonSellerId: 'A3P5ROKL5A1OLE' },
+  { domainId: 3, code: 'DE', host: 'amazon.de', label: 'Germany', currency: 'EUR', locale: 'de-DE', amazonSellerId: 'A3JWKAKR8XB7XF' },
+  { domainId: 4, code: 'FR', host: 'amazon.fr', label: 'France', currency: 'EUR', locale: 'fr-FR', amazonSellerId: 'A1X6FK5RDHNB96' },
+  { domainId: 5, code: 'JP', host: 'amazon.co.jp', label: 'Japan', currency: 'JPY', locale: 'ja-JP', amazonSellerId: 'AN1VRQENFRJN5' },
+  { domainId: 6, code: 'CA', host: 'amazon.ca', label: 'Canada', currency: 'CAD', locale: 'en-CA', amazonSellerId: 'A3DWYIK6Y9EEQB' },
+  { domainId: 8, code: 'IT', host: 'amazon.it', label: 'Italy', currency: 'EUR', locale: 'it-IT', amazonSellerId: 'A11IL2PNWYJU7H' },
+  { domainId: 9, code: 'ES', host: 'amazon.es', label: 'Spain', currency: 'EUR', locale: 'es-ES', amazonSellerId: 'A1AT7YVPFBWXBL' },
+  { domainId: 10, code: 'IN', host: 'amazon.in', label: 'India', currency: 'INR', locale: 'en-IN' },
+  { domainId: 11, code: 'MX', host: 'amazon.com.mx', label: 'Mexico', currency: 'MXN', locale: 'es-MX', amazonSellerId: 'AVDBXBAVVSXLQ' },
+  { domainId: 12, code: 'BR', host: 'amazon.com.br', label: 'Brazil', currency: 'BRL', locale: 'pt-BR' },
+]
+
+export const DEFAULT_DOMAIN_ID = 1
+
+export function getMarketplace(domainId: number): KeepaMarketplace {
+  const marketplace = KEEPA_MARKETPLACES.find((m) => m.domainId === domainId)
+  if (!marketplace) {
+    throw new Error(`Unsupported Keepa domain ID: ${domainId}`)
+  }
+  return marketplace
+}
+
+// Matches www., smile., m. and other subdomains of a marketplace host
+export function marketplaceForHost(hostname: string): KeepaMarketplace | undefined {
+  const host = hostname.toLowerCase()
+  return KEEPA_MARKETPLACES.find((m) => host === m.host || host.endsWith(`.${m.host}`))
+}
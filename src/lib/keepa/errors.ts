@@ -0,0 +1,215 @@
+import type { z } from 'zod'
+import type { KeepaErrorBody } from './schemas'
+import { formatWait } from './time'
+
+export class KeepaError extends Error {
+  // Whether the same request may succeed if sent again later
+  readonly retryable: boolean
+  // What the user can do about it, shown under the message
+  readonly guidance?: string
+
+  constructor(message: string, options: { retryable?: boolean; guidance?: string } = {}) {
+    super(message)
+    this.name = 'KeepaError'
+    this.retryable = options.retryable ?? false
+    this.guidance = options.guidance
+  }
+}
+
+// Non-2xx HTTP status from the Keepa API that has no more specific class
+export class KeepaHttpError extends KeepaError {
+  readonly status: number
+
+  constructor(
+    status: number,
+    message = `Keepa API responded with HTTP ${status}`,
+    options: { retryable?: boolean; guidance?: string } = {},
+  ) {
+    super(message, options)
+    this.name = 'KeepaHttpError'
+    this.status = status
+  }
+}
+
+// 401, or a 400 whose body says the key is the problem
+export class KeepaInvalidKeyError extends KeepaHttpError {
+  constructor(status: number) {
+    super(status, 'Keepa rejected the API key', {
+      guidance: 'Check that the key was copied in full from keepa.com → API, with no spaces.',
+    })
+    this.name = 'KeepaInvalidKeyError'
+  }
+}
+
+// 402
+export class KeepaPaymentRequiredError extends KeepaHttpError {
+  constructor() {
+    super(402, 'Your Keepa API plan is inactive or has expired', {
+      guidance: 'Renew or upgrade the API subscription on keepa.com, then try again.',
+    })
+    this.name = 'KeepaPaymentRequiredError'
+  }
+}
+
+// 429: the key has run out of tokens
+export class KeepaRateLimitError extends KeepaHttpError {
+  // How long until Keepa refills tokens, if it told us
+  readonly retryAfterMs?: number
+
+  constructor(retryAfterMs?: number) {
+    super(429, 'Your Keepa key is out of tokens', {
+      retryable: true,
+      guidance: retryAfterMs
+        ? `Tokens refill in about ${formatWait(retryAfterMs)}. Lookups will resume automatically; large bulk lists may need a bigger plan.`
+        : 'Wait for tokens to refill. Large bulk lists may need a bigger plan.',
+    })
+    this.name = 'KeepaRateLimitError'
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+// The key's refill rate can never cover a request, so the scheduler won't queue it
+export class KeepaTokensUnavailableError extends KeepaError {
+  readonly cost: number
+
+  constructor(cost: number, available: number) {
+    super(`This request needs ${cost} Keepa tokens but the key has ${Math.floor(available)} and no refill`, {
+      guidance: 'Check the API plan on keepa.com; a key without a refill rate cannot run further requests.',
+    })
+    this.name = 'KeepaTokensUnavailableError'
+    this.cost = cost
+  }
+}
+
+// 5xx
+export class KeepaServerError extends KeepaHttpError {
+  constructor(status: number) {
+    super(status, `Keepa is having server trouble (HTTP ${status})`, {
+      retryable: true,
+      guidance: 'This is usually temporary. Try again in a minute.',
+    })
+    this.name = 'KeepaServerError'
+  }
+}
+
+// The request never got a response: offline, DNS failure, CORS or a dropped connection
+export class KeepaNetworkError extends KeepaError {
+  constructor(offline: boolean) {
+    super(offline ? 'You appear to be offline' : 'Could not reach the Keepa API', {
+      retryable: true,
+      guidance: offline
+        ? 'Reconnect to the internet and try again.'
+        : 'Check your connection, VPN or ad blocker, then try again.',
+    })
+    this.name = 'KeepaNetworkError'
+  }
+}
+
+// The response body was not JSON, e.g. a truncated response or a proxy error page
+export class KeepaParseError extends KeepaError {
+  constructor(endpoint: string) {
+    super(`Keepa ${endpoint} response was not valid JSON`, {
+      retryable: true,
+      guidance: 'The response was cut off or replaced by a proxy. Try again.',
+    })
+    this.name = 'KeepaParseError'
+  }
+}
+
+// Keepa reported an error in the response body (e.g. an invalid parameter)
+export class KeepaApiError extends KeepaError {
+  readonly type?: string
+  readonly details?: string
+
+  constructor(message: string, type?: string, details?: string) {
+    super(message, { guidance: details })
+    this.name = 'KeepaApiError'
+    this.type = type
+    this.details = details
+  }
+}
+
+// The response did not match the shape we expect from Keepa
+export class KeepaResponseError extends KeepaError {
+  readonly issues: z.core.$ZodIssue[]
+
+  constructor(endpoint: string, issues: z.core.$ZodIssue[] = []) {
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ')
+    super(`Malformed Keepa ${endpoint} response${summary ? ` (${summary})` : ''}`, {
+      guidance: 'Keepa may have changed its response format. Please report this with the ASIN you looked up.',
+    })
+    this.name = 'KeepaResponseError'
+    this.issues = issues
+  }
+}
+
+export class KeepaProductNotFoundError extends KeepaError {
+  readonly asin: string
+
+  constructor(asin: string) {
+    super(`Product ${asin} was not found on Keepa`, {
+      guidance: 'Check the ASIN and that the selected marketplace sells this product.',
+    })
+    this.name = 'KeepaProductNotFoundError'
+    this.asin = asin
+  }
+}
+
+export class KeepaSellerNotFoundError extends KeepaError {
+  readonly sellerId: string
+
+  constructor(sellerId: string) {
+    super(`Seller ${sellerId} was not found on Keepa`, {
+      guidance: 'Check the seller ID (the "seller=" part of a storefront link) and the selected marketplace.',
+    })
+    this.name = 'KeepaSellerNotFoundError'
+    this.sellerId = sellerId
+  }
+}
+
+const KEY_ERROR_PATTERN = /\bkey\b/i
+
+/**
+ * Maps a non-2xx status (and the body, if Keepa sent one) to the most specific error. Keepa
+ * answers bad parameters (e.g. a Product Finder or Deals filter it can't use) with 400 too, so a
+ * 400 only means a bad key when the body says so.
+ */
+export function errorForStatus(status: number, body?: KeepaErrorBody): KeepaError {
+  const error = body?.error
+  if (status === 401) return new KeepaInvalidKeyError(status)
+  if (status === 400) {
+    if (error && KEY_ERROR_PATTERN.test(`${error.type ?? ''} ${error.message ?? ''}`)) {
+      return new KeepaInvalidKeyError(status)
+    }
+    if (error?.message || error?.type) {
+      return new KeepaApiError(error.message ?? error.type!, error.type, error.details)
+    }
+    return new KeepaHttpError(400, 'Keepa rejected the request (HTTP 400)', {
+      guidance: 'A filter or parameter may be out of range. If every lookup fails this way, check the API key.',
+    })
+  }
+  if (status === 402) return new KeepaPaymentRequiredError()
+  if (status === 429) return new KeepaRateLimitError(body?.refillIn)
+  if (status >= 500) return new KeepaServerError(status)
+  return new KeepaHttpError(status)
+}
+
+// Errors that will fail every further request with this key, so batch work should stop
+export function isFatalKeepaError(err: unknown): boolean {
+  return err instanceof KeepaInvalidKeyError || err instanceof KeepaPaymentRequiredError
+}
+
+export interface ErrorDescription {
+  message: string
+  guidance?: string
+}
+
+export function describeError(err: unknown, fallback: string): ErrorDescription {
+  if (typeof err === 'string') return { message: err }
+  if (err instanceof KeepaError) return { message: err.message, guidance: err.guidance }
+  if (err instanceof Error) return { message: err.message }
+  return { message: fallback }
+}
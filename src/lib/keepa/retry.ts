@@ -0,0 +1,45 @@
+import { KeepaError, KeepaRateLimitError } from './errors'
+
+export interface RetryPolicy {
+  // Total tries including the first one
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+}
+
+export function isRetryable(err: unknown): boolean {
+  return err instanceof KeepaError && err.retryable
+}
+
+// Exponential backoff with equal jitter (half fixed, half random); out-of-token errors wait at least until the next refill
+export function retryDelay(err: unknown, attempt: number, policy: RetryPolicy): number {
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  const jittered = backoff / 2 + Math.random() * (backoff / 2)
+  if (err instanceof KeepaRateLimitError && err.retryAfterMs !== undefined) {
+    return Math.max(jittered, err.retryAfterMs)
+  }
+  return jittered
+}
+
+export async function withRetry<T>(
+  run: () => Promise<T>,
+  policy: RetryPolicy,
+  onRetry?: (err: unknown, attempt: number, delayMs: number) => void,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run()
+    } catch (err) {
+      if (attempt >= policy.maxAttempts || !isRetryable(err)) throw err
+      const delay = retryDelay(err, attempt, policy)
+      onRetry?.(err, attempt, delay)
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import { z } from 'zod'
+
+// Fields present on every Keepa API response
+export const keepaResponseBaseSchema = z.object({
+  timestamp: z.number(),
+  tokensLeft: z.number(),
+  refillIn: z.number(),
+  refillRate: z.number(),
+  tokenFlowReduction: z.number().optional(),
+  tokensConsumed: z.number().optional(),
+  processingTimeInMs: z.number().optional(),
+  error: z
+    .object({
+      type: z.string().optional(),
+      message: z.string().optional(),
+      details: z.string().optional(),
+    })
+    .optional(),
+})
+
+// Error responses may leave out the token fields, so the error is read on its own
+export const keepaErrorBodySchema = z.object({
+  refillIn: z.number().optional(),
+  error: keepaResponseBaseSchema.shape.error,
+})
+
+export type KeepaErrorBody = z.infer<typeof keepaErrorBodySchema>
+
+export const keepaCategoryNodeSchema = z.object({
+  catId: z.number(),
+  name: z.string(),
+})
+
+// Each csv entry is a flat history: [keepaTime, value, keepaTime, value, ...]
+// or null when Keepa has no data for that series
+export const keepaCsvSchema = z.array(z.array(z.number()).nullable())
+
+// Stats arrays are indexed like product.csv; -1 means no data for that series
+const statsValuesSchema = z.array(z.number().nullable())
+// Entries are [keepaTime, value] pairs, or null when the series has no data
+const statsPointsSchema = z.array(z.array(z.number()).nullable())
+
+// Server-side aggregates, present when the product request sets `stats`
+export const keepaStatsSchema = z.object({
+  current: statsValuesSchema.nullish(),
+  avg: statsValuesSchema.nullish(),
+  avg30: statsValuesSchema.nullish(),
+  avg90: statsValuesSchema.nullish(),
+  avg180: statsValuesSchema.nullish(),
+  avg365: statsValuesSchema.nullish(),
+  atIntervalStart: statsValuesSchema.nullish(),
+  min: statsPointsSchema.nullish(),
+  max: statsPointsSchema.nullish(),
+  minInInterval: statsPointsSchema.nullish(),
+  maxInInterval: statsPointsSchema.nullish(),
+  outOfStockPercentageInInterval: statsValuesSchema.nullish(),
+  outOfStockPercentage30: statsValuesSchema.nullish(),
+  outOfStockPercentage90: statsValuesSchema.nullish(),
+  salesRankDrops30: z.number().nullish(),
+  salesRankDrops90: z.number().nullish(),
+  salesRankDrops180: z.number().nullish(),
+  salesRankDrops365: z.number().nullish(),
+  totalOfferCount: z.number().nullish(),
+  // Only set when the request included offers
+  buyBoxSellerId: z.string().nullish(),
+  buyBoxPrice: z.number().nullish(),
+  buyBoxShipping: z.number().nullish(),
+  buyBoxIsFBA: z.boolean().nullish(),
+  buyBoxIsAmazon: z.boolean().nullish(),
+  // Per-seller Buy Box share over the stats interval, keyed by seller ID
+  buyBoxStats: z
+    .record(
+      z.string(),
+      z.object({
+        percentageWon: z.number(),
+        avgPrice: z.number().nullish(),
+        avgNewOfferCount: z.number().nullish(),
+        isFBA: z.boolean().nullish(),
+        lastSeen: z.number().nullish(),
+      }),
+    )
+    .nullish(),
+})
+
+// One marketplace offer; offerCSV is [keepaTime, price, shipping, ...] and stockCSV [keepaTime, stock, ...]
+export const keepaOfferSchema = z.object({
+  offerId: z.number(),
+  sellerId: z.string(),
+  lastSeen: z.number(),
+  condition: z.number(),
+  offerCSV: z.array(z.number()).nullish(),
+  stockCSV: z.array(z.number()).nullish(),
+  isPrime: z.boolean().nullish(),
+  isFBA: z.boolean().nullish(),
+  isAmazon: z.boolean().nullish(),
+  isMAP: z.boolean().nullish(),
+  isPreorder: z.boolean().nullish(),
+  isWarehouseDeal: z.boolean().nullish(),
+  isShippable: z.boolean().nullish(),
+})
+
+export const keepaProductSchema = z.object({
+  asin: z.string(),
+  domainId: z.number(),
+  title: z.string().nullish(),
+  rootCategory: z.number().nullish(),
+  // FBA fees in the smallest currency unit
+  fbaFees: z.object({
+    pickAndPackFee: z.number().nullish(),
+    storageFee: z.number().nullish(),
+    lastUpdate: z.number().nullish(),
+  }).nullish(),
+  // Referral fee for the product's category, in percent
+  referralFeePercentage: z.number().nullish(),
+  // Older integer form of the same value
+  referralFeePercent: z.number().nullish(),
+  // Set on children of a variation family
+  parentAsin: z.string().nullish(),
+  // Every child of the family, with the attributes that tell them apart
+  variations: z.array(z.object({
+    asin: z.string(),
+    attributes: z.array(z.object({ dimension: z.string(), value: z.string() })).nullish(),
+  })).nullish(),
+  upcList: z.array(z.string()).nullish(),
+  eanList: z.array(z.string()).nullish(),
+  // Leaf category IDs the product is listed in
+  categories: z.array(z.number()).nullish(),
+  // Root-to-leaf path of the primary category
+  categoryTree: z.array(keepaCategoryNodeSchema).nullish(),
+  // Rank histories keyed by category ID, each [keepaTime, rank, ...]
+  salesRanks: z.record(z.string(), z.array(z.number())).nullish(),
+  // Category whose rank is csv[SALES_RANK]
+  salesRankReference: z.number().nullish(),
+  csv: keepaCsvSchema.nullish(),
+  availabilityAmazon: z.number().nullish(),
+  lastUpdate: z.number().nullish(),
+  stats: keepaStatsSchema.nullish(),
+  offers: z.array(keepaOfferSchema).nullish(),
+  // Indices into `offers` of the currently live offers, cheapest first
+  liveOffersOrder: z.array(z.number()).nullish(),
+  // [keepaTime, sellerId, keepaTime, sellerId, ...] as strings; present with `buybox` or `offers`
+  buyBoxSellerIdHistory: z.array(z.string()).nullish(),
+})
+
+export const keepaProductResponseSchema = keepaResponseBaseSchema.extend({
+  products: z.array(keepaProductSchema).default([]),
+})
+
+export const keepaCategorySchema = z.object({
+  catId: z.number(),
+  name: z.string(),
+  domainId: z.number().optional(),
+  parent: z.number().nullish(),
+  children: z.array(z.number()).nullish(),
+  highestRank: z.number().nullish(),
+  productCount: z.number().nullish(),
+})
+
+export const keepaCategoryResponseSchema = keepaResponseBaseSchema.extend({
+  categories: z.record(z.string(), keepaCategorySchema).default({}),
+})
+
+export const keepaSellerSchema = z.object({
+  sellerId: z.string(),
+  sellerName: z.string().nullish(),
+  domainId: z.number().optional(),
+  // Percent positive feedback, 0-100
+  currentRating: z.number().nullish(),
+  currentRatingCount: z.number().nullish(),
+  // [time, value] histories: 0 = rating, 1 = rating count
+  csv: z.array(z.array(z.number()).nullable()).nullish(),
+  // Storefront, only with storefront=1
+  asinList: z.array(z.string()).nullish(),
+  asinListLastSeen: z.array(z.number()).nullish(),
+  // [time, count] history of the storefront size
+  totalStorefrontAsins: z.array(z.number()).nullish(),
+})
+
+export const keepaSellerResponseSchema = keepaResponseBaseSchema.extend({
+  sellers: z.record(z.string(), keepaSellerSchema).default({}),
+})
+
+export const keepaQueryResponseSchema = keepaResponseBaseSchema.extend({
+  asinList: z.array(z.string()).default([]),
+  // Matches across all pages, not just the ones returned
+  totalResults: z.number().optional(),
+})
+
+export const keepaBestSellersResponseSchema = keepaResponseBaseSchema.extend({
+  // Missing when Keepa has no list for the category
+  bestSellersList: z.object({
+    domainId: z.number().optional(),
+    categoryId: z.number().optional(),
+    lastUpdate: z.number().optional(),
+    // Best selling first
+    asinList: z.array(z.string()).default([]),
+  }).nullish(),
+})
+
+// Per-price-type arrays are indexed by KeepaCsvType; -1 means no data
+export const keepaDealSchema = z.object({
+  asin: z.string(),
+  title: z.string().nullish(),
+  rootCat: z.number().nullish(),
+  image: z.array(z.number()).nullish(),
+  current: z.array(z.number()).default([]),
+  // First index is the date range: 0 day, 1 week, 2 month, 3 three months
+  avg: z.array(z.array(z.number())).default([]),
+  delta: z.array(z.array(z.number())).default([]),
+  deltaPercent: z.array(z.array(z.number())).default([]),
+  creationDate: z.number().nullish(),
+  lastUpdate: z.number().nullish(),
+})
+
+export const keepaDealResponseSchema = keepaResponseBaseSchema.extend({
+  deals: z.object({
+    dr: z.array(keepaDealSchema).default([]),
+  }).nullish(),
+})
+
+export type KeepaResponseBase = z.infer<typeof keepaResponseBaseSchema>
+export type KeepaStats = z.infer<typeof keepaStatsSchema>
+export type KeepaProduct = z.infer<typeof keepaProductSchema>
+export type KeepaProductResponse = z.infer<typeof keepaProductResponseSchema>
+export type KeepaCategory = z.infer<typeof keepaCategorySchema>
+export type KeepaCategoryResponse = z.infer<typeof keepaCategoryResponseSchema>
+export type KeepaOffer = z.infer<typeof keepaOfferSchema>
+export type KeepaSeller = z.infer<typeof keepaSellerSchema>
+export type KeepaSellerResponse = z.infer<typeof keepaSellerResponseSchema>
+export type KeepaQueryResponse = z.infer<typeof keepaQueryResponseSchema>
+export type KeepaBestSellersResponse = z.infer<typeof keepaBestSellersResponseSchema>
+export type KeepaDeal = z.infer<typeof keepaDealSchema>
+export type KeepaDealResponse = z.infer<typeof keepaDealResponseSchema>
+export type KeepaTokenStatus = KeepaResponseBase
@@ -0,0 +1,36 @@
+import { KEEPA_CSV_SERIES, type KeepaCsvType, type KeepaPoint } from './csv'
+import type { KeepaStats } from './schemas'
+import { fromKeepaTime } from './time'
+
+type StatsValueField =
+  | 'current'
+  | 'avg'
+  | 'avg30'
+  | 'avg90'
+  | 'avg180'
+  | 'avg365'
+  | 'atIntervalStart'
+  | 'outOfStockPercentageInInterval'
+  | 'outOfStockPercentage30'
+  | 'outOfStockPercentage90'
+
+type StatsPointField = 'min' | 'max' | 'minInInterval' | 'maxInInterval'
+
+const isPercentage = (field: StatsValueField) => field.startsWith('outOfStock')
+
+// Normalizes like the csv decoders, so stats and decoded history are directly comparable
+function normalize(type: KeepaCsvType, value: number): number {
+  return KEEPA_CSV_SERIES[type].kind === 'rating' ? value / 10 : value
+}
+
+export function statValue(stats: KeepaStats | null | undefined, field: StatsValueField, type: KeepaCsvType): number | undefined {
+  const value = stats?.[field]?.[type]
+  if (value == null || value < 0) return undefined
+  return isPercentage(field) ? value : normalize(type, value)
+}
+
+export function statPoint(stats: KeepaStats | null | undefined, field: StatsPointField, type: KeepaCsvType): KeepaPoint | undefined {
+  const entry = stats?.[field]?.[type]
+  if (!entry || entry.length < 2 || entry[1] < 0) return undefined
+  return { keepaTime: entry[0], time: fromKeepaTime(entry[0]), value: normalize(type, entry[1]) }
+}
@@ -0,0 +1,18 @@
+// Keepa timestamps are minutes since its own epoch (Jan 1, 2011, 00:00 UTC)
+export const KEEPA_EPOCH_MS = Date.UTC(2011, 0, 1)
+
+const MINUTE_MS = 60 * 1000
+
+export function fromKeepaTime(keepaMinutes: number): Date {
+  return new Date(KEEPA_EPOCH_MS + keepaMinutes * MINUTE_MS)
+}
+
+export function toKeepaTime(date: Date | number): number {
+  const ms = typeof date === 'number' ? date : date.getTime()
+  return Math.floor((ms - KEEPA_EPOCH_MS) / MINUTE_MS)
+}
+
+export function formatWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000)
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`
+}
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { KeepaTokensUnavailableError } from './errors'
+import { KeepaTokenScheduler, getSharedScheduler } from './tokens'
+
+const MINUTE = 60 * 1000
+
+function schedulerWith(tokensLeft: number, refillRate: number, refillIn: number) {
+  const scheduler = new KeepaTokenScheduler()
+  scheduler.observe({ tokensLeft, refillRate, refillIn })
+  return scheduler
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(0)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('KeepaTokenScheduler.waitTimeFor', () => {
+  it('does not wait before Keepa has reported a balance', () => {
+    expect(new KeepaTokenScheduler().waitTimeFor(100)).toBe(0)
+  })
+
+  it('does not wait when the balance covers the cost', () => {
+    expect(schedulerWith(5, 10, 20_000).waitTimeFor(5)).toBe(0)
+  })
+
+  it('waits for the next refill when one refill covers the cost', () => {
+    expect(schedulerWith(5, 10, 20_000).waitTimeFor(12)).toBe(20_000)
+  })
+
+  it('adds a minute for every further refill needed', () => {
+    // 25 tokens short at 10 a minute is three refills
+    expect(schedulerWith(5, 10, 20_000).waitTimeFor(30)).toBe(20_000 + 2 * MINUTE)
+  })
+
+  it('counts refills that happened since the last response', () => {
+    const scheduler = schedulerWith(5, 10, 20_000)
+    vi.advanceTimersByTime(20_000 + MINUTE)
+    expect(scheduler.availableTokens()).toBe(25)
+    expect(scheduler.waitTimeFor(30)).toBe(MINUTE)
+  })
+
+  it('stops refilling at an hour of tokens', () => {
+    const scheduler = schedulerWith(595, 10, 1000)
+    vi.advanceTimersByTime(5 * MINUTE)
+    expect(scheduler.availableTokens()).toBe(600)
+  })
+
+  it('only waits for a full balance when the cost is more than the key can hold', () => {
+    // 60 tokens an hour caps the balance at 60, 50 short of it
+    const scheduler = schedulerWith(10, 1, 1000)
+    expect(scheduler.waitTimeFor(500)).toBe(1000 + 49 * MINUTE)
+  })
+
+  it('lets a key without a refill spend its last tokens', () => {
+    expect(schedulerWith(3, 0, 1000).waitTimeFor(5)).toBe(0)
+  })
+
+  it('never ends for a key without a refill or tokens', () => {
+    expect(schedulerWith(0, 0, 1000).waitTimeFor(5)).toBe(Infinity)
+    expect(schedulerWith(-2, 0, 1000).waitTimeFor(1)).toBe(Infinity)
+  })
+})
+
+describe('KeepaTokenScheduler.schedule', () => {
+  it('holds a request back until the balance covers it', async () => {
+    const scheduler = schedulerWith(5, 5, 1000)
+    const first = vi.fn().mockResolvedValue('first')
+    const second = vi.fn().mockResolvedValue('second')
+
+    const results = Promise.all([scheduler.schedule(5, first), scheduler.schedule(5, second)])
+    await vi.advanceTimersByTimeAsync(0)
+    expect(first).toHaveBeenCalledOnce()
+    expect(second).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(second).toHaveBeenCalledOnce()
+    await expect(results).resolves.toEqual(['first', 'second'])
+  })
+
+  it('runs a request costing more than the key can hold once the balance is full', async () => {
+    const scheduler = schedulerWith(59, 1, 1000)
+    const run = vi.fn().mockResolvedValue('done')
+
+    const result = scheduler.schedule(500, run)
+    await vi.advanceTimersByTimeAsync(999)
+    expect(run).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(run).toHaveBeenCalledOnce()
+    await expect(result).resolves.toBe('done')
+  })
+
+  it('rejects requests the key can no longer cover and drains the queue', async () => {
+    // The first request takes the balance below zero and there is no refill to bring it back
+    const scheduler = schedulerWith(3, 0, 1000)
+    const first = vi.fn().mockResolvedValue('done')
+    const stranded = vi.fn()
+
+    const results = [scheduler.schedule(5, first), scheduler.schedule(2, stranded), scheduler.schedule(1, stranded)]
+
+    await expect(results[0]).resolves.toBe('done')
+    await expect(results[1]).rejects.toBeInstanceOf(KeepaTokensUnavailableError)
+    await expect(results[2]).rejects.toBeInstanceOf(KeepaTokensUnavailableError)
+    expect(stranded).not.toHaveBeenCalled()
+    expect(scheduler.getSnapshot()).toMatchObject({ queued: 0, queuedCost: 0 })
+    expect(scheduler.isIdle()).toBe(true)
+  })
+
+  it('runs new requests again once a response reports tokens', async () => {
+    const scheduler = schedulerWith(0, 0, 1000)
+    await expect(scheduler.schedule(1, vi.fn())).rejects.toBeInstanceOf(KeepaTokensUnavailableError)
+
+    scheduler.observe({ tokensLeft: 10, refillRate: 0, refillIn: 1000 })
+    await expect(scheduler.schedule(1, () => Promise.resolve('done'))).resolves.toBe('done')
+  })
+
+  it('keeps going after a request fails', async () => {
+    const scheduler = schedulerWith(10, 5, 1000)
+    const failed = scheduler.schedule(1, () => Promise.reject(new Error('boom')))
+    const next = scheduler.schedule(1, () => Promise.resolve('done'))
+
+    await expect(failed).rejects.toThrow('boom')
+    await expect(next).resolves.toBe('done')
+  })
+})
+
+describe('getSharedScheduler', () => {
+  it('shares one scheduler per key', () => {
+    expect(getSharedScheduler('shared-key')).toBe(getSharedScheduler('shared-key'))
+  })
+
+  it('drops idle schedulers for other keys', () => {
+    const partial = getSharedScheduler('partial')
+    getSharedScheduler('partial-key')
+    expect(getSharedScheduler('partial')).not.toBe(partial)
+  })
+
+  it('keeps schedulers that are still in use', () => {
+    const subscribed = getSharedScheduler('subscribed-key')
+    const unsubscribe = subscribed.subscribe(() => {})
+    getSharedScheduler('other-key')
+    expect(getSharedScheduler('subscribed-key')).toBe(subscribed)
+    unsubscribe()
+  })
+})
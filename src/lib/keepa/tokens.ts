@@ -0,0 +1,213 @@
+import { KeepaTokensUnavailableError } from './errors'
+import type { KeepaResponseBase } from './schemas'
+
+const REFILL_INTERVAL_MS = 60 * 1000
+// Keepa stops refilling once a key holds an hour's worth of tokens
+const REFILL_CAP_MINUTES = 60
+
+export interface KeepaProductCostOptions {
+  asinCount: number
+  // Number of offers requested per product (Keepa's `offers` parameter)
+  offers?: number
+  // Buy Box history and share (Keepa's `buybox` parameter)
+  buybox?: boolean
+}
+
+const OFFERS_PER_PAGE = 10
+const TOKENS_PER_OFFER_PAGE = 6
+const TOKENS_PER_BUY_BOX = 2
+const QUERY_BASE_COST = 10
+export const BEST_SELLERS_COST = 50
+// One page of up to 150 deals
+export const DEALS_COST = 5
+
+// One token per product, plus six per page of ten offers (an upper bound) and two for Buy Box data
+export function estimateProductCost({ asinCount, offers, buybox }: KeepaProductCostOptions): number {
+  const offerPages = offers ? Math.ceil(offers / OFFERS_PER_PAGE) : 0
+  // Offers already include Buy Box data, so it is only billed on its own
+  const buyBoxCost = buybox && !offers ? TOKENS_PER_BUY_BOX : 0
+  return asinCount * (1 + offerPages * TOKENS_PER_OFFER_PAGE + buyBoxCost)
+}
+
+const TOKENS_PER_STOREFRONT = 9
+
+// One token per seller, plus nine more each when the storefront ASIN list is requested
+export function estimateSellerCost(sellerCount: number, storefront = false): number {
+  return sellerCount * (1 + (storefront ? TOKENS_PER_STOREFRONT : 0))
+}
+
+// Product Finder: a flat fee plus one token per 100 ASINs returned
+export function estimateQueryCost(perPage: number): number {
+  return QUERY_BASE_COST + Math.ceil(perPage / 100)
+}
+
+export { formatWait } from './time'
+
+export interface KeepaTokenSnapshot {
+  // Tokens available now, extrapolated from the last response; undefined until Keepa has answered once
+  tokensLeft?: number
+  refillRate?: number
+  // Milliseconds until the next refill
+  refillIn?: number
+  queued: number
+  // Tokens the queued requests are expected to cost
+  queuedCost: number
+}
+
+interface QueuedTask {
+  cost: number
+  run: () => Promise<unknown>
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+}
+
+/**
+ * Shares one Keepa key's token budget between all lookups. Requests are run one at a time,
+ * in order, and held back until the extrapolated balance covers their estimated cost.
+ */
+export class KeepaTokenScheduler {
+  private tokensLeft?: number
+  private refillRate?: number
+  // Wall-clock time of the next refill after the last observed response
+  private nextRefillAt?: number
+  private readonly queue: QueuedTask[] = []
+  private running = false
+  private readonly listeners = new Set<() => void>()
+  private snapshot: KeepaTokenSnapshot = { queued: 0, queuedCost: 0 }
+
+  schedule<T>(cost: number, run: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({ cost, run, resolve: resolve as (value: unknown) => void, reject })
+      this.emit()
+      void this.drain()
+    })
+  }
+
+  // Feed every Keepa response through here so the balance stays accurate
+  observe(response: Pick<KeepaResponseBase, 'tokensLeft' | 'refillIn' | 'refillRate'>, now = Date.now()) {
+    this.tokensLeft = response.tokensLeft
+    this.refillRate = response.refillRate
+    this.nextRefillAt = now + response.refillIn
+    this.emit()
+  }
+
+  availableTokens(now = Date.now()): number | undefined {
+    if (this.tokensLeft === undefined || this.refillRate === undefined || this.nextRefillAt === undefined) {
+      return undefined
+    }
+    if (now < this.nextRefillAt) return this.tokensLeft
+    const refills = 1 + Math.floor((now - this.nextRefillAt) / REFILL_INTERVAL_MS)
+    return Math.min(this.capacity()!, this.tokensLeft + refills * this.refillRate)
+  }
+
+  /**
+   * Milliseconds until `cost` tokens are expected to be available. Keepa lets the balance go
+   * negative, so a request costing more than the balance can ever refill to only waits for a
+   * full balance, though it always needs at least one token to start. Infinity when the key has
+   * no refill and can never cover the cost.
+   */
+  waitTimeFor(cost: number, now = Date.now()): number {
+    const available = this.availableTokens(now)
+    if (available === undefined) return 0
+    const required = Math.min(cost, Math.max(this.capacity()!, 1))
+    if (available >= required) return 0
+    if (!this.refillRate) return Infinity
+    if (this.nextRefillAt === undefined) return REFILL_INTERVAL_MS
+
+    const firstRefill = this.msUntilNextRefill(now)
+    const refillsNeeded = Math.ceil((required - available) / this.refillRate)
+    return firstRefill + (refillsNeeded - 1) * REFILL_INTERVAL_MS
+  }
+
+  getSnapshot = (): KeepaTokenSnapshot => this.snapshot
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  // Nothing queued or running and nobody subscribed, so dropping it loses no work
+  isIdle(): boolean {
+    return !this.running && this.queue.length === 0 && this.listeners.size === 0
+  }
+
+  // Recompute the extrapolated balance, e.g. from a UI timer
+  refresh() {
+    this.emit()
+  }
+
+  private emit(now = Date.now()) {
+    this.snapshot = {
+      tokensLeft: this.availableTokens(now),
+      refillRate: this.refillRate,
+      refillIn: this.nextRefillAt === undefined ? undefined : this.msUntilNextRefill(now),
+      queued: this.queue.length,
+      queuedCost: this.queue.reduce((total, task) => total + task.cost, 0),
+    }
+    for (const listener of this.listeners) listener()
+  }
+
+  // Most the balance refills to; a balance observed above the hourly cap still counts
+  private capacity(): number | undefined {
+    if (this.tokensLeft === undefined || this.refillRate === undefined) return undefined
+    return Math.max(this.tokensLeft, this.refillRate * REFILL_CAP_MINUTES)
+  }
+
+  private msUntilNextRefill(now: number): number {
+    const elapsed = now - this.nextRefillAt!
+    return elapsed < 0 ? -elapsed : REFILL_INTERVAL_MS - (elapsed % REFILL_INTERVAL_MS)
+  }
+
+  private async drain() {
+    if (this.running) return
+    this.running = true
+    try {
+      while (this.queue.length > 0) {
+        const task = this.queue[0]
+        const wait = this.waitTimeFor(task.cost)
+        if (wait === Infinity) {
+          this.queue.shift()
+          task.reject(new KeepaTokensUnavailableError(task.cost, this.availableTokens() ?? 0))
+          this.emit()
+          continue
+        }
+        if (wait > 0) {
+          await new Promise((resolve) => setTimeout(resolve, wait))
+          continue
+        }
+
+        this.queue.shift()
+        // Reserve the tokens now; the response will correct the balance
+        if (this.tokensLeft !== undefined) this.tokensLeft -= task.cost
+        this.emit()
+        try {
+          task.resolve(await task.run())
+        } catch (err) {
+          task.reject(err)
+        }
+      }
+    } finally {
+      this.running = false
+      this.emit()
+    }
+  }
+}
+
+const sharedSchedulers = new Map<string, KeepaTokenScheduler>()
+
+/**
+ * The token budget belongs to the key, so every screen using the same key shares one scheduler.
+ * The key is resolved on every edit of the key field, so idle schedulers for other keys (mostly
+ * partly typed ones) are dropped rather than kept for the life of the page.
+ */
+export function getSharedScheduler(apiKey: string): KeepaTokenScheduler {
+  for (const [key, idle] of sharedSchedulers) {
+    if (key !== apiKey && idle.isIdle()) sharedSchedulers.delete(key)
+  }
+  let scheduler = sharedSchedulers.get(apiKey)
+  if (!scheduler) {
+    scheduler = new KeepaTokenScheduler()
+    sharedSchedulers.set(apiKey, scheduler)
+  }
+  return scheduler
+}
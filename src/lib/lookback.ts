@@ -0,0 +1,34 @@
+import { KEEPA_EPOCH_MS } from './keepa/time'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type LookbackWindow = 7 | 30 | 90 | 180 | 365 | 'all'
+
+export const LOOKBACK_WINDOWS: { value: LookbackWindow; label: string }[] = [
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 180, label: '180 days' },
+  { value: 365, label: '365 days' },
+  { value: 'all', label: 'All time' },
+]
+
+export const DEFAULT_LOOKBACK: LookbackWindow = 30
+
+export function lookbackLabel(window: LookbackWindow): string {
+  return LOOKBACK_WINDOWS.find((option) => option.value === window)?.label ?? `${window} days`
+}
+
+// Start of the window, or undefined for all time
+export function lookbackStart(window: LookbackWindow, now = Date.now()): Date | undefined {
+  return window === 'all' ? undefined : new Date(now - window * DAY_MS)
+}
+
+export function parseLookback(value: string): LookbackWindow {
+  return value === 'all' ? 'all' : (Number(value) as LookbackWindow)
+}
+
+// Length of the window in whole days; all time reaches back to the start of Keepa's history
+export function lookbackDays(window: LookbackWindow, now = Date.now()): number {
+  return window === 'all' ? Math.ceil((now - KEEPA_EPOCH_MS) / DAY_MS) : window
+}
@@ -0,0 +1,120 @@
+import { toMajorUnits } from './currency'
+import { KEEPA_MAX_SELLERS_PER_REQUEST, type KeepaClient } from './keepa/client'
+import type { KeepaOffer, KeepaProduct, KeepaSeller } from './keepa/schemas'
+
+export const DEFAULT_OFFER_COUNT = 20
+
+const CONDITIONS: Record<number, string> = {
+  1: 'New',
+  2: 'Used - Like New',
+  3: 'Used - Very Good',
+  4: 'Used - Good',
+  5: 'Used - Acceptable',
+  6: 'Refurbished',
+  7: 'Collectible - Like New',
+  8: 'Collectible - Very Good',
+  9: 'Collectible - Good',
+  10: 'Collectible - Acceptable',
+}
+
+export type Fulfillment = 'Amazon' | 'FBA' | 'FBM'
+
+export interface SellerOffer {
+  sellerId: string
+  sellerName?: string
+  condition: string
+  price: number
+  shipping: number
+  total: number
+  fulfillment: Fulfillment
+  isPrime: boolean
+  stock?: number
+  // Percent positive feedback and number of ratings, when the seller lookup returned them
+  rating?: number
+  ratingCount?: number
+  isBuyBoxWinner: boolean
+}
+
+export interface OffersSummary {
+  offers: SellerOffer[]
+  fbaCount: number
+  fbmCount: number
+  amazonOnListing: boolean
+  buyBoxSellerId?: string
+}
+
+function lastValue(csv: number[] | null | undefined, stride: number, offset: number): number | undefined {
+  if (!csv || csv.length < stride) return undefined
+  const value = csv[csv.length - stride + offset]
+  return value < 0 ? undefined : value
+}
+
+function fulfillmentOf(offer: KeepaOffer): Fulfillment {
+  if (offer.isAmazon) return 'Amazon'
+  return offer.isFBA ? 'FBA' : 'FBM'
+}
+
+// Live offers in Keepa's order (cheapest first)
+export function liveOffers(product: KeepaProduct): KeepaOffer[] {
+  const offers = product.offers ?? []
+  if (!product.liveOffersOrder) return offers
+  return product.liveOffersOrder.map((index) => offers[index]).filter((offer): offer is KeepaOffer => Boolean(offer))
+}
+
+// Distinct real seller IDs on the live offers and in the Buy Box history, for the follow-up seller lookup
+export function productSellerIds(product: KeepaProduct): string[] {
+  const buyBoxSellers = (product.buyBoxSellerIdHistory ?? []).filter((id, i) => i % 2 === 1 && !id.startsWith('-'))
+  const ids = [...new Set([...liveOffers(product).map((offer) => offer.sellerId), ...buyBoxSellers])]
+  return ids.slice(0, KEEPA_MAX_SELLERS_PER_REQUEST)
+}
+
+// Offers and Buy Box history carry only seller IDs; names and feedback cost one extra token per seller
+export async function fetchProductSellers(client: KeepaClient, product: KeepaProduct): Promise<Record<string, KeepaSeller>> {
+  const sellerIds = productSellerIds(product)
+  if (sellerIds.length === 0) return {}
+  const response = await client.getSellers(product.domainId, sellerIds)
+  return response.sellers
+}
+
+export function buildOffersSummary(
+  product: KeepaProduct,
+  sellers: Record<string, KeepaSeller> = {},
+): OffersSummary | undefined {
+  if (!product.offers) return undefined
+  const buyBoxSellerId = product.stats?.buyBoxSellerId ?? undefined
+  let buyBoxMarked = false
+
+  const offers = liveOffers(product).flatMap((offer): SellerOffer[] => {
+    // offerCSV is [keepaTime, price, shipping] triplets
+    const price = lastValue(offer.offerCSV, 3, 1)
+    if (price === undefined) return []
+    const shipping = lastValue(offer.offerCSV, 3, 2) ?? 0
+    const seller = sellers[offer.sellerId]
+    // Only the seller's new offer can hold the (new) Buy Box, and only once
+    const isBuyBoxWinner = !buyBoxMarked && offer.sellerId === buyBoxSellerId && offer.condition === 1
+    if (isBuyBoxWinner) buyBoxMarked = true
+
+    return [{
+      sellerId: offer.sellerId,
+      sellerName: seller?.sellerName ?? undefined,
+      condition: CONDITIONS[offer.condition] ?? 'Unknown',
+      price: toMajorUnits(price, product.domainId),
+      shipping: toMajorUnits(shipping, product.domainId),
+      total: toMajorUnits(price + shipping, product.domainId),
+      fulfillment: fulfillmentOf(offer),
+      isPrime: Boolean(offer.isPrime),
+      stock: lastValue(offer.stockCSV, 2, 1),
+      rating: seller?.currentRating ?? undefined,
+      ratingCount: seller?.currentRatingCount ?? undefined,
+      isBuyBoxWinner,
+    }]
+  })
+
+  return {
+    offers,
+    fbaCount: offers.filter((offer) => offer.fulfillment === 'FBA').length,
+    fbmCount: offers.filter((offer) => offer.fulfillment === 'FBM').length,
+    amazonOnListing: offers.some((offer) => offer.fulfillment === 'Amazon'),
+    buyBoxSellerId,
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { formatProductCode, hasValidCheckDigit, looksLikeProductCode, parseProductCode } from './product-codes'
+
+describe('hasValidCheckDigit', () => {
+  it.each([
+    ['a UPC-A', '036000291452'],
+    ['an EAN-13', '4006381333931'],
+    ['an ISBN-13', '9780306406157'],
+    ['a UPC with a leading zero', '012345678905'],
+    ['a UPC written as an EAN', '0012345678905'],
+    ['a check digit of zero', '9780141036144'],
+  ])('accepts %s', (_, digits) => {
+    expect(hasValidCheckDigit(digits)).toBe(true)
+  })
+
+  it.each([
+    ['a UPC-A', '036000291453'],
+    ['an EAN-13', '4006381333930'],
+    ['an ISBN-13', '9780306406158'],
+    ['two swapped digits', '4006383133931'],
+  ])('rejects %s with the wrong check digit', (_, digits) => {
+    expect(hasValidCheckDigit(digits)).toBe(false)
+  })
+})
+
+describe('parseProductCode', () => {
+  it('classifies 12 digits as a UPC', () => {
+    expect(parseProductCode('036000291452')).toEqual({ code: '036000291452', kind: 'UPC' })
+  })
+
+  it('classifies 13 digits as an EAN', () => {
+    expect(parseProductCode('4006381333931')).toEqual({ code: '4006381333931', kind: 'EAN' })
+  })
+
+  it.each(['9780306406157', '9791034304493'])('classifies the 978/979 prefix %s as an ISBN-13', (code) => {
+    expect(parseProductCode(code)).toEqual({ code, kind: 'ISBN-13' })
+  })
+
+  it('keeps leading zeros', () => {
+    expect(parseProductCode('012345678905')).toEqual({ code: '012345678905', kind: 'UPC' })
+    expect(parseProductCode('0012345678905')).toEqual({ code: '0012345678905', kind: 'EAN' })
+  })
+
+  it('strips whitespace and hyphens', () => {
+    expect(parseProductCode('978-0-306-40615-7')).toEqual({ code: '9780306406157', kind: 'ISBN-13' })
+    expect(parseProductCode(' 4006381 333931 ')).toEqual({ code: '4006381333931', kind: 'EAN' })
+    expect(parseProductCode('0 36000 29145 2')).toEqual({ code: '036000291452', kind: 'UPC' })
+  })
+
+  it.each([
+    ['a wrong check digit', '036000291453'],
+    ['too few digits', '03600029145'],
+    ['too many digits', '40063813339310'],
+    ['an ISBN-10', '0306406152'],
+    ['letters', 'B08N5WRWNW'],
+    ['a GTIN with a letter in it', '40063813339A1'],
+    ['an empty string', ''],
+  ])('rejects %s', (_, input) => {
+    expect(parseProductCode(input)).toBeUndefined()
+  })
+})
+
+describe('looksLikeProductCode', () => {
+  it('flags 12 and 13 digit input even when the check digit is wrong', () => {
+    expect(looksLikeProductCode('036000291453')).toBe(true)
+    expect(looksLikeProductCode('978-0-306-40615-8')).toBe(true)
+  })
+
+  it('ignores ASINs and shorter numbers', () => {
+    expect(looksLikeProductCode('B08N5WRWNW')).toBe(false)
+    expect(looksLikeProductCode('0306406152')).toBe(false)
+  })
+})
+
+describe('formatProductCode', () => {
+  it('removes spaces, tabs and hyphens', () => {
+    expect(formatProductCode(' 978-0\t306 40615-7\n')).toBe('9780306406157')
+  })
+})
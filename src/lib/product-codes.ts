@@ -0,0 +1,68 @@
+import type { KeepaClient, KeepaProductRequest } from './keepa/client'
+import { KEEPA_MAX_ASINS_PER_REQUEST } from './keepa/client'
+import type { KeepaProduct } from './keepa/schemas'
+
+export type ProductCodeKind = 'UPC' | 'EAN' | 'ISBN-13'
+
+export interface ProductCode {
+  // Digits only
+  code: string
+  kind: ProductCodeKind
+}
+
+// Codes are often written with spaces or hyphens (978-0-306-40615-7)
+export function formatProductCode(input: string): string {
+  return input.trim().replace(/[\s-]/g, '')
+}
+
+// 12 or 13 digits: worth telling the user the check digit is off rather than "not an ASIN"
+export function looksLikeProductCode(input: string): boolean {
+  return /^\d{12,13}$/.test(formatProductCode(input))
+}
+
+// GTIN check digit: weights alternate 3 and 1 from the digit next to the check digit
+export function hasValidCheckDigit(digits: string): boolean {
+  let sum = 0
+  for (let i = digits.length - 2, weight = 3; i >= 0; i--, weight = 4 - weight) {
+    sum += Number(digits[i]) * weight
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1])
+}
+
+export function parseProductCode(input: string): ProductCode | undefined {
+  const code = formatProductCode(input)
+  if (!looksLikeProductCode(code) || !hasValidCheckDigit(code)) return undefined
+  if (code.length === 12) return { code, kind: 'UPC' }
+  return { code, kind: /^97[89]/.test(code) ? 'ISBN-13' : 'EAN' }
+}
+
+// A UPC is an EAN with a leading zero, and Keepa lists it either way
+const sameCode = (a: string, b: string) => a.replace(/^0+/, '') === b.replace(/^0+/, '')
+
+function productHasCode(product: KeepaProduct, code: string): boolean {
+  return [...(product.upcList ?? []), ...(product.eanList ?? [])].some((listed) => sameCode(listed, code))
+}
+
+/**
+ * Looks products up by UPC/EAN through Keepa's `code` parameter, in batches of up to 100 codes,
+ * and groups what comes back by the code it matched. One code can match several ASINs.
+ */
+export async function resolveProductCodes(
+  client: KeepaClient,
+  codes: string[],
+  request: Omit<KeepaProductRequest, 'asins'>,
+): Promise<Map<string, KeepaProduct[]>> {
+  const matches = new Map<string, KeepaProduct[]>(codes.map((code) => [code, []]))
+
+  for (let i = 0; i < codes.length; i += KEEPA_MAX_ASINS_PER_REQUEST) {
+    const batch = codes.slice(i, i + KEEPA_MAX_ASINS_PER_REQUEST)
+    const { products } = await client.getProductsByCode(batch, request)
+    for (const product of products) {
+      // With a single code there is nothing to disambiguate, even if Keepa omits the code lists
+      const matched = batch.length === 1 ? batch : batch.filter((code) => productHasCode(product, code))
+      matched.forEach((code) => matches.get(code)!.push(product))
+    }
+  }
+
+  return matches
+}
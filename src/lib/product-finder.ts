@@ -0,0 +1,126 @@
+import { z } from 'zod'
+import { KEEPA_MIN_QUERY_PAGE_SIZE, type KeepaClient, type KeepaProductSelection } from './keepa/client'
+import { toMinorUnits } from './currency'
+import { readJson, writeJson } from './storage'
+
+// Form inputs stay strings so an empty field means "no limit" rather than 0
+const optionalNumber = z
+  .string()
+  .trim()
+  .refine((value) => value === '' || (Number.isFinite(Number(value)) && Number(value) >= 0), 'Enter a positive number')
+
+function checkRange(min: string, max: string, field: string, ctx: z.RefinementCtx) {
+  if (min !== '' && max !== '' && Number(min) > Number(max)) {
+    ctx.addIssue({ code: 'custom', path: [field], message: 'Max must be at least the min' })
+  }
+}
+
+export const finderFiltersSchema = z
+  .object({
+    rootCategory: z.string(),
+    rankMin: optionalNumber,
+    rankMax: optionalNumber,
+    priceMin: optionalNumber,
+    priceMax: optionalNumber,
+    offersMin: optionalNumber,
+    offersMax: optionalNumber,
+    brand: z.string().trim(),
+    amazonInStock: z.boolean(),
+    minRating: optionalNumber.refine((value) => value === '' || Number(value) <= 5, 'Ratings go up to 5'),
+  })
+  .superRefine((filters, ctx) => {
+    checkRange(filters.rankMin, filters.rankMax, 'rankMax', ctx)
+    checkRange(filters.priceMin, filters.priceMax, 'priceMax', ctx)
+    checkRange(filters.offersMin, filters.offersMax, 'offersMax', ctx)
+  })
+
+export type FinderFilters = z.infer<typeof finderFiltersSchema>
+
+export const EMPTY_FINDER_FILTERS: FinderFilters = {
+  rootCategory: '',
+  rankMin: '',
+  rankMax: '',
+  priceMin: '',
+  priceMax: '',
+  offersMin: '',
+  offersMax: '',
+  brand: '',
+  amazonInStock: false,
+  minRating: '',
+}
+
+const number = (value: string) => (value === '' ? undefined : Number(value))
+const price = (value: string, domainId: number) => (value === '' ? undefined : toMinorUnits(Number(value), domainId))
+
+export function toSelection(filters: FinderFilters, domainId: number): KeepaProductSelection {
+  const selection: KeepaProductSelection = {
+    rootCategory: filters.rootCategory ? [Number(filters.rootCategory)] : undefined,
+    current_SALES_gte: number(filters.rankMin),
+    current_SALES_lte: number(filters.rankMax),
+    current_NEW_gte: price(filters.priceMin, domainId),
+    current_NEW_lte: price(filters.priceMax, domainId),
+    current_COUNT_NEW_gte: number(filters.offersMin),
+    current_COUNT_NEW_lte: number(filters.offersMax),
+    brand: filters.brand ? [filters.brand] : undefined,
+    availabilityAmazon: filters.amazonInStock ? [0] : undefined,
+    current_RATING_gte: filters.minRating === '' ? undefined : Math.round(Number(filters.minRating) * 10),
+    // Best sellers first, so the page we fetch is the most interesting one
+    sort: [['current_SALES', 'asc']],
+    perPage: KEEPA_MIN_QUERY_PAGE_SIZE,
+  }
+  // Keepa rejects explicit nulls, so drop the unset keys entirely
+  return Object.fromEntries(Object.entries(selection).filter(([, value]) => value !== undefined))
+}
+
+export interface FinderResult {
+  asins: string[]
+  totalResults: number
+}
+
+export async function findAsins(client: KeepaClient, domainId: number, filters: FinderFilters): Promise<FinderResult> {
+  const response = await client.findProducts(domainId, toSelection(filters, domainId))
+  return { asins: response.asinList, totalResults: response.totalResults ?? response.asinList.length }
+}
+
+export interface SavedFinderQuery {
+  id: string
+  name: string
+  domainId: number
+  filters: FinderFilters
+  savedAt: string
+}
+
+const STORAGE_KEY = 'finder-queries'
+
+let saved = readJson<SavedFinderQuery[]>(STORAGE_KEY, [])
+const listeners = new Set<() => void>()
+
+function update(next: SavedFinderQuery[]) {
+  saved = next
+  writeJson(STORAGE_KEY, saved)
+  listeners.forEach((listener) => listener())
+}
+
+export const savedFinderQueryStore = {
+  getSnapshot: (): SavedFinderQuery[] => saved,
+  subscribe: (listener: () => void) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+  // Saving under an existing name for the same marketplace replaces that query
+  save(name: string, domainId: number, filters: FinderFilters) {
+    const query: SavedFinderQuery = {
+      id: crypto.randomUUID(),
+      name,
+      domainId,
+      filters,
+      savedAt: new Date().toISOString(),
+    }
+    update([query, ...saved.filter((q) => q.name !== name || q.domainId !== domainId)])
+  },
+  remove(id: string) {
+    update(saved.filter((q) => q.id !== id))
+  },
+}
@@ -0,0 +1,88 @@
+import { toMajorUnits } from './currency'
+import type { KeepaProduct } from './keepa/schemas'
+import { readJson, writeJson } from './storage'
+
+export interface ProductFees {
+  // Pick & pack fee per unit, in major currency units
+  fbaFee?: number
+  referralPercent?: number
+}
+
+export function productFees(product: KeepaProduct): ProductFees {
+  const pickAndPack = product.fbaFees?.pickAndPackFee
+  const referral = product.referralFeePercentage ?? product.referralFeePercent
+  return {
+    fbaFee: pickAndPack != null && pickAndPack >= 0 ? toMajorUnits(pickAndPack, product.domainId) : undefined,
+    referralPercent: referral != null && referral >= 0 ? referral : undefined,
+  }
+}
+
+// Kept as typed so a half-entered value survives a reload; empty fee fields fall back to Keepa's
+export interface ProfitInputs {
+  unitCost: string
+  inboundShipping: string
+  prepCost: string
+  fbaFee: string
+  referralPercent: string
+}
+
+export const EMPTY_PROFIT_INPUTS: ProfitInputs = {
+  unitCost: '',
+  inboundShipping: '',
+  prepCost: '',
+  fbaFee: '',
+  referralPercent: '',
+}
+
+export interface ProfitBreakdown {
+  price: number
+  referralFee: number
+  fbaFee: number
+  // Unit cost plus inbound shipping and prep
+  landedCost: number
+  netProfit: number
+  // Percent of the sale price
+  margin: number
+  // Percent of the landed cost; undefined while no cost has been entered
+  roi?: number
+}
+
+const amount = (value: string) => {
+  const parsed = Number(value)
+  return value.trim() === '' || !Number.isFinite(parsed) ? undefined : parsed
+}
+
+export function effectiveFees(inputs: ProfitInputs, fees: ProductFees): Required<ProductFees> | undefined {
+  const fbaFee = amount(inputs.fbaFee) ?? fees.fbaFee
+  const referralPercent = amount(inputs.referralPercent) ?? fees.referralPercent
+  return fbaFee === undefined || referralPercent === undefined ? undefined : { fbaFee, referralPercent }
+}
+
+export function calculateProfit(price: number, inputs: ProfitInputs, fees: Required<ProductFees>): ProfitBreakdown {
+  const landedCost = (amount(inputs.unitCost) ?? 0) + (amount(inputs.inboundShipping) ?? 0) + (amount(inputs.prepCost) ?? 0)
+  const referralFee = (price * fees.referralPercent) / 100
+  const netProfit = price - referralFee - fees.fbaFee - landedCost
+  return {
+    price,
+    referralFee,
+    fbaFee: fees.fbaFee,
+    landedCost,
+    netProfit,
+    margin: price > 0 ? (netProfit / price) * 100 : 0,
+    roi: landedCost > 0 ? (netProfit / landedCost) * 100 : undefined,
+  }
+}
+
+const STORAGE_KEY = 'profit-inputs'
+
+const inputsKey = (domainId: number, asin: string) => `${domainId}:${asin}`
+
+export function loadProfitInputs(domainId: number, asin: string): ProfitInputs {
+  const saved = readJson<Record<string, ProfitInputs>>(STORAGE_KEY, {})[inputsKey(domainId, asin)]
+  return { ...EMPTY_PROFIT_INPUTS, ...saved }
+}
+
+export function saveProfitInputs(domainId: number, asin: string, inputs: ProfitInputs): void {
+  const saved = readJson<Record<string, ProfitInputs>>(STORAGE_KEY, {})
+  writeJson(STORAGE_KEY, { ...saved, [inputsKey(domainId, asin)]: inputs })
+}
@@ -0,0 +1,63 @@
+import { KeepaCsvType, decodeCountSeries, decodeRankSeries, type KeepaPoint } from './keepa/csv'
+import type { KeepaProduct } from './keepa/schemas'
+import { summarizePriceHistory, type PriceSummary } from './sales-rank'
+import { clipSeries, summarizeSeries, timeWeightedAverage, type DateRange } from './series-stats'
+
+export interface ValueRangeStats {
+  min: number
+  max: number
+  // Weighted by how long each value was in effect
+  average: number
+}
+
+// Metric tile figures recomputed for a date range picked on the history charts
+export interface RangeStats {
+  price?: PriceSummary
+  rank?: ValueRangeStats
+  newOffers?: ValueRangeStats
+  usedOffers?: ValueRangeStats
+}
+
+function rankStats(points: KeepaPoint[], range: DateRange, now: number): ValueRangeStats | undefined {
+  const summary = summarizeSeries(points, range)
+  const average = timeWeightedAverage(points, range, now)
+  return summary && average !== undefined ? { min: summary.min, max: summary.max, average } : undefined
+}
+
+// Unlike prices and ranks, a count of zero is a real value rather than a gap
+function countStats(points: KeepaPoint[], range: DateRange, now: number): ValueRangeStats | undefined {
+  const clipped = clipSeries(points, range)
+  const endMs = Math.min(range.end?.getTime() ?? now, now)
+  let min = Infinity
+  let max = -Infinity
+  let weighted = 0
+  let duration = 0
+
+  clipped.forEach((point, i) => {
+    if (point.value === null) return
+    min = Math.min(min, point.value)
+    max = Math.max(max, point.value)
+    const span = (clipped[i + 1]?.time.getTime() ?? endMs) - point.time.getTime()
+    if (span > 0) {
+      weighted += point.value * span
+      duration += span
+    }
+  })
+
+  if (min === Infinity) return undefined
+  return { min, max, average: duration > 0 ? weighted / duration : min }
+}
+
+export function buildRangeStats(product: KeepaProduct, range: DateRange, now = Date.now()): RangeStats {
+  return {
+    price: summarizePriceHistory(product, range),
+    rank: rankStats(decodeRankSeries(product), range, now),
+    newOffers: countStats(decodeCountSeries(product, KeepaCsvType.COUNT_NEW), range, now),
+    usedOffers: countStats(decodeCountSeries(product, KeepaCsvType.COUNT_USED), range, now),
+  }
+}
+
+export function formatRange(range: DateRange): string {
+  const format = (date: Date | undefined) => date?.toLocaleDateString() ?? '…'
+  return `${format(range.start)} – ${format(range.end)}`
+}
@@ -0,0 +1,90 @@
+import { readJson, removeKey, writeJson } from './storage'
+
+export interface SalesCurvePoint {
+  rank: number
+  monthlySales: number
+}
+
+// Curves keyed by root category name, so they apply across marketplaces
+export type SalesCurves = Record<string, SalesCurvePoint[]>
+
+export const DEFAULT_CURVE = 'Default'
+
+const STORAGE_KEY = 'sales-curves'
+
+const curve = (...pairs: [number, number][]): SalesCurvePoint[] =>
+  pairs.map(([rank, monthlySales]) => ({ rank, monthlySales }))
+
+// Rough amazon.com rank-to-sales anchors; users can tune them in the curve editor
+export const BUILT_IN_SALES_CURVES: SalesCurves = {
+  [DEFAULT_CURVE]: curve([1, 20000], [100, 3000], [1000, 600], [10000, 90], [100000, 8], [1000000, 0.3]),
+  'Toys & Games': curve([1, 30000], [100, 4500], [1000, 900], [10000, 150], [100000, 12], [1000000, 0.5]),
+  'Home & Kitchen': curve([1, 35000], [100, 6000], [1000, 1200], [10000, 240], [100000, 25], [1000000, 1.5]),
+  'Electronics': curve([1, 25000], [100, 3000], [1000, 600], [10000, 90], [100000, 8], [1000000, 0.3]),
+  'Beauty & Personal Care': curve([1, 30000], [100, 5000], [1000, 1000], [10000, 180], [100000, 18], [1000000, 1]),
+  'Health & Household': curve([1, 30000], [100, 5000], [1000, 1000], [10000, 200], [100000, 20], [1000000, 1]),
+  'Sports & Outdoors': curve([1, 15000], [100, 2500], [1000, 500], [10000, 90], [100000, 9], [1000000, 0.4]),
+  'Pet Supplies': curve([1, 20000], [100, 3500], [1000, 700], [10000, 110], [100000, 10], [1000000, 0.5]),
+  'Grocery & Gourmet Food': curve([1, 25000], [100, 4000], [1000, 800], [10000, 120], [100000, 10], [1000000, 0.5]),
+  'Tools & Home Improvement': curve([1, 15000], [100, 2500], [1000, 500], [10000, 100], [100000, 10], [1000000, 0.5]),
+  'Books': curve([1, 40000], [100, 4000], [1000, 600], [10000, 60], [100000, 5], [1000000, 0.2]),
+}
+
+function isValidCurve(points: SalesCurvePoint[]): boolean {
+  return points.length >= 2 && points.every((p) => p.rank > 0 && p.monthlySales > 0)
+}
+
+/**
+ * Monthly units at a given rank, interpolating linearly in log-log space between anchors
+ * and extrapolating past either end with the slope of the nearest segment.
+ */
+export function salesAtRank(points: SalesCurvePoint[], rank: number): number {
+  const sorted = [...points].sort((a, b) => a.rank - b.rank)
+  let i = sorted.findIndex((p) => p.rank >= rank)
+  if (i <= 0) i = i === 0 ? 1 : sorted.length - 1
+  const lo = sorted[i - 1]
+  const hi = sorted[i]
+  const slope = Math.log(hi.monthlySales / lo.monthlySales) / Math.log(hi.rank / lo.rank)
+  return lo.monthlySales * Math.exp(slope * Math.log(rank / lo.rank))
+}
+
+// "rank, units" per line
+export function formatCurveText(points: SalesCurvePoint[]): string {
+  return points.map((p) => `${p.rank}, ${p.monthlySales}`).join('\n')
+}
+
+export function parseCurveText(text: string): SalesCurvePoint[] | null {
+  const points: SalesCurvePoint[] = []
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue
+    const [rank, monthlySales] = line.split(/[,\s]+/).filter(Boolean).map(Number)
+    if (!Number.isFinite(rank) || !Number.isFinite(monthlySales)) return null
+    points.push({ rank, monthlySales })
+  }
+  return isValidCurve(points) ? points.sort((a, b) => a.rank - b.rank) : null
+}
+
+// Small observable store so every mounted estimate updates when a curve is edited
+let current: SalesCurves = { ...BUILT_IN_SALES_CURVES, ...readJson<SalesCurves>(STORAGE_KEY, {}) }
+const listeners = new Set<() => void>()
+
+export const salesCurveStore = {
+  getSnapshot: (): SalesCurves => current,
+  subscribe: (listener: () => void) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+  setCurve(category: string, points: SalesCurvePoint[]) {
+    current = { ...current, [category]: points }
+    const overrides = readJson<SalesCurves>(STORAGE_KEY, {})
+    writeJson(STORAGE_KEY, { ...overrides, [category]: points })
+    listeners.forEach((listener) => listener())
+  },
+  reset() {
+    current = { ...BUILT_IN_SALES_CURVES }
+    removeKey(STORAGE_KEY)
+    listeners.forEach((listener) => listener())
+  },
+}
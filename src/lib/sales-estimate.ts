@@ -0,0 +1,88 @@
+import type { ValueRangeStats } from './range-stats'
+import { DEFAULT_CURVE, salesAtRank, type SalesCurvePoint, type SalesCurves } from './sales-curves'
+import type { SalesRankData } from './sales-rank'
+import { median } from './series-stats'
+
+export type EstimateConfidence = 'high' | 'medium' | 'low'
+
+export interface SalesEstimate {
+  monthlySales: number
+  low: number
+  high: number
+  confidence: EstimateConfidence
+  // Curve the rank-based figures were read from
+  curve: string
+}
+
+// The category's own curve when it has one, otherwise the default
+function pickCurve(category: string | undefined, curves: SalesCurves): { name: string; points: SalesCurvePoint[] } | undefined {
+  const name = category && curves[category] ? category : DEFAULT_CURVE
+  const points = curves[name] ?? curves[DEFAULT_CURVE]
+  return points && { name, points }
+}
+
+function confidenceFor(low: number, high: number, candidates: number, curveName: string): EstimateConfidence {
+  const spread = low > 0 ? high / low : Infinity
+  let confidence: EstimateConfidence = spread < 1.5 ? 'high' : spread < 3 ? 'medium' : 'low'
+  // One data point or a generic curve can't be trusted as much
+  if (candidates < 2 || (curveName === DEFAULT_CURVE && confidence === 'high')) confidence = 'medium'
+  if (candidates < 2 && curveName === DEFAULT_CURVE) confidence = 'low'
+  return confidence
+}
+
+/**
+ * Estimated units per month from the rank (current and 30/90-day averages, read off the category's
+ * curve) and Keepa's rank drops (each drop is roughly one sale, so drops are a floor for slow sellers).
+ * The band spans the independent estimates; the wider it is, the lower the confidence.
+ */
+export function estimateMonthlySales(data: SalesRankData, curves: SalesCurves): SalesEstimate | undefined {
+  const curve = pickCurve(data.category, curves)
+  if (!curve) return undefined
+  const { name: curveName, points } = curve
+
+  const stats = data.serverStats
+  const ranks = [data.salesRank, stats?.rankAvg30, stats?.rankAvg90].filter((r): r is number => r !== undefined && r > 0)
+  const rankEstimates = ranks.map((rank) => salesAtRank(points, rank))
+  const dropEstimates = [
+    stats?.salesRankDrops30,
+    stats?.salesRankDrops90 === undefined ? undefined : stats.salesRankDrops90 / 3,
+    stats?.salesRankDrops180 === undefined ? undefined : stats.salesRankDrops180 / 6,
+  ].filter((d): d is number => d !== undefined && d >= 0)
+
+  const candidates = [...rankEstimates, ...dropEstimates]
+  if (candidates.length === 0) return undefined
+
+  // Rank drops undercount fast sellers, so they only ever raise the floor
+  const floor = dropEstimates.length > 0 ? Math.min(...dropEstimates) : 0
+  const monthlySales = Math.max(median(candidates), floor)
+  const low = Math.max(Math.min(...candidates), floor)
+  const high = Math.max(...candidates, monthlySales)
+
+  const confidence = confidenceFor(low, high, candidates.length, curveName)
+  return { monthlySales, low, high, confidence, curve: curveName }
+}
+
+/**
+ * Estimated units per month over a date range picked on the history charts, read off the curve at
+ * the range's average rank. Keepa's rank drops only cover fixed 30/90/180-day windows, so the band
+ * spans the range's worst and best ranks instead.
+ */
+export function estimateRangeSales(
+  category: string | undefined,
+  rank: ValueRangeStats,
+  curves: SalesCurves,
+): SalesEstimate | undefined {
+  const curve = pickCurve(category, curves)
+  if (!curve || rank.average <= 0) return undefined
+
+  const monthlySales = salesAtRank(curve.points, rank.average)
+  const low = Math.min(salesAtRank(curve.points, rank.max), monthlySales)
+  const high = Math.max(salesAtRank(curve.points, rank.min), monthlySales)
+  const confidence = confidenceFor(low, high, rank.min === rank.max ? 1 : 3, curve.name)
+  return { monthlySales, low, high, confidence, curve: curve.name }
+}
+
+// Slow sellers keep a decimal so "0.4 a month" doesn't read as zero
+export function formatUnits(units: number): string {
+  return units < 10 ? units.toFixed(1) : Math.round(units).toLocaleString()
+}
@@ -0,0 +1,251 @@
+import {
+  KEEPA_CSV_SERIES,
+  KeepaCsvType,
+  decodePriceSeries,
+  decodeRankSeries,
+  lastKnownPoint,
+  latestPoint,
+  type KeepaPoint,
+} from './keepa/csv'
+import { toMajorUnits } from './currency'
+import { getMarketplace } from './keepa/domains'
+import type { KeepaProduct, KeepaSeller } from './keepa/schemas'
+import { statPoint, statValue } from './keepa/stats'
+import { lookbackStart, type LookbackWindow } from './lookback'
+import { buildBuyBoxHistory, type BuyBoxHistory } from './buy-box'
+import type { ProductCode } from './product-codes'
+import {
+  buildCategoryRanks,
+  categoryPath,
+  type CategoryNames,
+  type CategoryNode,
+  type CategoryRank,
+} from './categories'
+import { buildOffersSummary, type OffersSummary } from './offers'
+import { productFees, type ProductFees } from './profit'
+import { summarizeSeries, type DateRange, type SeriesSummary } from './series-stats'
+
+// Price summary from history, in major currency units
+export interface PriceSummary {
+  source: string
+  min: number
+  minDate: string
+  max: number
+  maxDate: string
+  average: number
+  median: number
+}
+
+export interface PriceWindowStats extends PriceSummary {
+  window: LookbackWindow
+  // 'keepa' when min/max/average come from Keepa's server-side stats, 'history' when scanned client-side
+  basis: 'keepa' | 'history'
+}
+
+// Keepa's precomputed stats for the quoted price series and the sales rank
+export interface ServerStats {
+  source: string
+  current?: number
+  avg30?: number
+  avg90?: number
+  avg180?: number
+  outOfStockPercentage?: number
+  rankAvg30?: number
+  rankAvg90?: number
+  rankAvg180?: number
+  salesRankDrops30?: number
+  salesRankDrops90?: number
+  salesRankDrops180?: number
+}
+
+export interface SalesRankData {
+  asin: string
+  // Set when the lookup started from a UPC/EAN/ISBN-13 instead of an ASIN
+  productCode?: ProductCode
+  domainId: number
+  // Marketplace host, e.g. amazon.co.uk
+  marketplace: string
+  // ISO 4217 code all prices are quoted in
+  currency: string
+  // Window the price stats were computed over
+  lookback: LookbackWindow
+  title?: string
+  salesRank?: number
+  // Set when the ASIN is a child in a variation family
+  parentAsin?: string
+  // Children in the family, when Keepa listed them on this product
+  variationCount?: number
+  // Root category name
+  category?: string
+  categoryPath?: CategoryNode[]
+  categoryRanks?: CategoryRank[]
+  price?: number
+  availability?: string
+  priceWindow?: PriceWindowStats
+  serverStats?: ServerStats
+  fees: ProductFees
+  // Only present when the lookup requested offers
+  offers?: OffersSummary
+  // Only present when the lookup requested Buy Box data or offers
+  buyBox?: BuyBoxHistory
+  priceSource?: string
+  lastUpdated?: string
+}
+
+// Shown as the category when Keepa has no category tree for the product
+export const CATEGORY_NOT_AVAILABLE = 'Category Not Available'
+
+// Preferred order when picking which price to quote
+const PRICE_SOURCES = [
+  KeepaCsvType.AMAZON,
+  KeepaCsvType.BUY_BOX_SHIPPING,
+  KeepaCsvType.NEW,
+] as const
+
+// First price series, in PRICE_SOURCES order, with prices inside the range
+export function quotedPriceSeries(
+  product: KeepaProduct,
+  range: DateRange,
+): { type: KeepaCsvType, points: KeepaPoint[], summary: SeriesSummary } | undefined {
+  for (const type of PRICE_SOURCES) {
+    const points = decodePriceSeries(product, type)
+    const summary = summarizeSeries(points, range)
+    if (summary) return { type, points, summary }
+  }
+  return undefined
+}
+
+export function summarizePriceHistory(product: KeepaProduct, range: DateRange): PriceSummary | undefined {
+  const quoted = quotedPriceSeries(product, range)
+  return quoted && toPriceSummary(product, quoted.type, quoted.summary)
+}
+
+function toPriceSummary(product: KeepaProduct, type: KeepaCsvType, summary: SeriesSummary): PriceSummary {
+  const toPrice = (minorUnits: number) => toMajorUnits(minorUnits, product.domainId)
+  return {
+    source: KEEPA_CSV_SERIES[type].label,
+    min: toPrice(summary.min),
+    minDate: summary.minDate.toLocaleDateString(),
+    max: toPrice(summary.max),
+    maxDate: summary.maxDate.toLocaleDateString(),
+    average: toPrice(summary.average),
+    median: toPrice(summary.median),
+  }
+}
+
+/**
+ * Price stats over the lookback window. Min, max and average come from Keepa's stats when the
+ * product was fetched with `stats` for this window; the median is always computed from history.
+ */
+export function buildPriceWindow(product: KeepaProduct, window: LookbackWindow, now = Date.now()): PriceWindowStats | undefined {
+  const start = lookbackStart(window, now)
+  const toPrice = (minorUnits: number) => toMajorUnits(minorUnits, product.domainId)
+  for (const type of PRICE_SOURCES) {
+    const summary = summarizeSeries(decodePriceSeries(product, type), { start })
+    const serverMin = statPoint(product.stats, 'minInInterval', type)
+    const serverMax = statPoint(product.stats, 'maxInInterval', type)
+    const serverAvg = statValue(product.stats, 'avg', type)
+
+    if (serverMin && serverMax && serverAvg !== undefined) {
+      return {
+        window,
+        source: KEEPA_CSV_SERIES[type].label,
+        min: toPrice(serverMin.value!),
+        minDate: serverMin.time.toLocaleDateString(),
+        max: toPrice(serverMax.value!),
+        maxDate: serverMax.time.toLocaleDateString(),
+        average: toPrice(serverAvg),
+        median: toPrice(summary?.median ?? serverAvg),
+        basis: 'keepa',
+      }
+    }
+    if (summary) {
+      return { window, ...toPriceSummary(product, type, summary), basis: 'history' }
+    }
+  }
+  return undefined
+}
+
+export function buildServerStats(product: KeepaProduct): ServerStats | undefined {
+  const { stats } = product
+  if (!stats) return undefined
+  const type = PRICE_SOURCES.find((t) => statValue(stats, 'current', t) !== undefined) ?? PRICE_SOURCES[0]
+  const price = (field: 'current' | 'avg30' | 'avg90' | 'avg180') => {
+    const value = statValue(stats, field, type)
+    return value === undefined ? undefined : toMajorUnits(value, product.domainId)
+  }
+  const rank = (field: 'avg30' | 'avg90' | 'avg180') => statValue(stats, field, KeepaCsvType.SALES_RANK)
+
+  return {
+    source: KEEPA_CSV_SERIES[type].label,
+    current: price('current'),
+    avg30: price('avg30'),
+    avg90: price('avg90'),
+    avg180: price('avg180'),
+    outOfStockPercentage: statValue(stats, 'outOfStockPercentageInInterval', type),
+    rankAvg30: rank('avg30'),
+    rankAvg90: rank('avg90'),
+    rankAvg180: rank('avg180'),
+    salesRankDrops30: stats.salesRankDrops30 ?? undefined,
+    salesRankDrops90: stats.salesRankDrops90 ?? undefined,
+    salesRankDrops180: stats.salesRankDrops180 ?? undefined,
+  }
+}
+
+// Keepa answers unknown ASINs with an empty product shell rather than omitting them
+export function hasProductData(product: KeepaProduct): boolean {
+  return Boolean(product.title) || Boolean(product.csv?.some((series) => series && series.length > 0))
+}
+
+// Data fetched alongside the product that the result can use when available
+export interface SalesRankExtras {
+  sellers?: Record<string, KeepaSeller>
+  categoryNames?: CategoryNames
+  // The UPC/EAN the ASIN was resolved from
+  productCode?: ProductCode
+}
+
+export function buildSalesRankData(
+  asin: string,
+  product: KeepaProduct,
+  window: LookbackWindow,
+  { sellers, categoryNames, productCode }: SalesRankExtras = {},
+): SalesRankData {
+  const marketplace = getMarketplace(product.domainId)
+  const salesRank = lastKnownPoint(decodeRankSeries(product))?.value ?? undefined
+  const priceWindow = buildPriceWindow(product, window)
+
+  let price: number | undefined
+  for (const type of PRICE_SOURCES) {
+    const current = latestPoint(decodePriceSeries(product, type))
+    if (current?.value) {
+      price = toMajorUnits(current.value, product.domainId)
+      break
+    }
+  }
+
+  return {
+    asin,
+    productCode,
+    domainId: marketplace.domainId,
+    marketplace: marketplace.host,
+    currency: marketplace.currency,
+    lookback: window,
+    title: product.title || 'Product Title Not Available',
+    salesRank,
+    parentAsin: product.parentAsin ?? undefined,
+    variationCount: product.variations?.length || undefined,
+    category: product.categoryTree?.[0]?.name || CATEGORY_NOT_AVAILABLE,
+    categoryPath: categoryPath(product),
+    categoryRanks: buildCategoryRanks(product, categoryNames),
+    price,
+    availability: (product.availabilityAmazon ?? -1) >= 0 ? 'In Stock' : 'Availability Unknown',
+    priceWindow,
+    serverStats: buildServerStats(product),
+    fees: productFees(product),
+    offers: buildOffersSummary(product, sellers),
+    buyBox: buildBuyBoxHistory(product, window, sellers),
+    priceSource: priceWindow?.source,
+    lastUpdated: new Date().toLocaleString(),
+  }
+}
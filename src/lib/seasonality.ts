@@ -0,0 +1,152 @@
+import { toMajorUnits } from './currency'
+import type { KeepaClient } from './keepa/client'
+import { KEEPA_CSV_SERIES, decodeRankSeries, type KeepaPoint } from './keepa/csv'
+import type { KeepaProduct } from './keepa/schemas'
+import { quotedPriceSeries } from './sales-rank'
+import { timeWeightedAverage } from './series-stats'
+
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// A year counts towards the seasonality index once it has data in this many months
+export const MIN_MONTHS_PER_YEAR = 10
+
+// Overlay rows are laid out on a leap year so Feb 29 has a slot
+const AXIS_YEAR = 2000
+
+export type SeasonalMetric = 'rank' | 'price'
+
+// One row per day of the shared Jan-Dec axis; each year holds the value in effect at noon that day
+export interface OverlayRow {
+  day: number
+  [year: string]: number | null
+}
+
+export interface YearOverlay {
+  // Series keys, oldest year first
+  years: string[]
+  rows: OverlayRow[]
+}
+
+export interface MonthSeasonality {
+  month: number
+  label: string
+  // 100 is an average month. For rank, above 100 means better ranks (more sales) than usual
+  rankIndex?: number
+  priceIndex?: number
+}
+
+export interface Seasonality {
+  rank: YearOverlay
+  price: YearOverlay
+  // Price series the price curves and index use
+  priceSource?: string
+  months: MonthSeasonality[]
+  // Years with enough months to count towards each index
+  rankYears: number[]
+  priceYears: number[]
+}
+
+// Keepa returns the whole history when `since` is left out
+export async function fetchFullHistory(client: KeepaClient, product: KeepaProduct): Promise<KeepaProduct> {
+  return client.getProduct(product.asin, { domain: product.domainId })
+}
+
+// Value in effect at each time, for times in ascending order
+function sampleSeries(points: KeepaPoint[], times: Date[]): (number | null)[] {
+  let cursor = 0
+  return times.map((time) => {
+    while (cursor < points.length && points[cursor].time <= time) cursor++
+    return cursor > 0 ? points[cursor - 1].value : null
+  })
+}
+
+export function buildYearOverlay(points: KeepaPoint[], now = Date.now()): YearOverlay {
+  const known = points.filter((point) => point.value !== null)
+  if (known.length === 0) return { years: [], rows: [] }
+
+  const firstYear = known[0].time.getFullYear()
+  const lastYear = new Date(now).getFullYear()
+  const days: Date[] = []
+  for (let date = new Date(AXIS_YEAR, 0, 1, 12); date.getFullYear() === AXIS_YEAR; date.setDate(date.getDate() + 1)) {
+    days.push(new Date(date))
+  }
+
+  const rows: OverlayRow[] = days.map((day) => ({ day: day.getTime() }))
+  const years: string[] = []
+  for (let year = firstYear; year <= lastYear; year++) {
+    const times = days.map((day) => new Date(year, day.getMonth(), day.getDate(), 12))
+    const values = sampleSeries(points, times)
+    let hasValue = false
+    times.forEach((time, i) => {
+      // Feb 29 rolls over to Mar 1 outside leap years, and the future has no data yet
+      const valid = time.getMonth() === days[i].getMonth() && time.getTime() <= now && time >= known[0].time
+      const value = valid ? values[i] : null
+      rows[i][year] = value
+      if (value !== null) hasValue = true
+    })
+    if (hasValue) years.push(String(year))
+  }
+  return { years, rows }
+}
+
+/**
+ * Average of each calendar month relative to its year's mean, averaged over every year with at
+ * least MIN_MONTHS_PER_YEAR months of data. Ranks are inverted so a higher index always means a
+ * stronger month.
+ */
+export function monthlyIndex(
+  points: KeepaPoint[],
+  invert: boolean,
+  now = Date.now(),
+): { index: (number | undefined)[], years: number[] } {
+  const known = points.filter((point) => point.value !== null)
+  if (known.length === 0) return { index: Array(12).fill(undefined), years: [] }
+
+  const totals = Array(12).fill(0)
+  const counts = Array(12).fill(0)
+  const years: number[] = []
+  for (let year = known[0].time.getFullYear(); year <= new Date(now).getFullYear(); year++) {
+    const averages = MONTH_LABELS.map((_, month) => {
+      const start = new Date(year, month, 1)
+      if (start.getTime() > now || new Date(year, month + 1, 1) <= known[0].time) return undefined
+      return timeWeightedAverage(points, { start, end: new Date(year, month + 1, 1) }, now)
+    })
+    const present = averages.filter((average): average is number => average !== undefined)
+    if (present.length < MIN_MONTHS_PER_YEAR) continue
+
+    const mean = present.reduce((sum, average) => sum + average, 0) / present.length
+    averages.forEach((average, month) => {
+      if (average === undefined) return
+      totals[month] += invert ? (mean / average) * 100 : (average / mean) * 100
+      counts[month]++
+    })
+    years.push(year)
+  }
+
+  return { index: totals.map((total, month) => (counts[month] > 0 ? total / counts[month] : undefined)), years }
+}
+
+export function buildSeasonality(product: KeepaProduct, now = Date.now()): Seasonality {
+  const rankPoints = decodeRankSeries(product)
+  const quoted = quotedPriceSeries(product, {})
+  const pricePoints = (quoted?.points ?? []).map((point) => ({
+    ...point,
+    value: point.value === null ? null : toMajorUnits(point.value, product.domainId),
+  }))
+
+  const rankIndex = monthlyIndex(rankPoints, true, now)
+  const priceIndex = monthlyIndex(pricePoints, false, now)
+  return {
+    rank: buildYearOverlay(rankPoints, now),
+    price: buildYearOverlay(pricePoints, now),
+    priceSource: quoted && KEEPA_CSV_SERIES[quoted.type].label,
+    months: MONTH_LABELS.map((label, month) => ({
+      month,
+      label,
+      rankIndex: rankIndex.index[month],
+      priceIndex: priceIndex.index[month],
+    })),
+    rankYears: rankIndex.years,
+    priceYears: priceIndex.years,
+  }
+}
@@ -0,0 +1,68 @@
+import type { KeepaClient } from './keepa/client'
+import { decodeValueHistory, lastKnownPoint, type KeepaPoint } from './keepa/csv'
+import type { KeepaSeller } from './keepa/schemas'
+
+// Indices into a seller's csv histories
+const SELLER_RATING = 0
+const SELLER_RATING_COUNT = 1
+
+// Merchant tokens look like A2L77EE7U53NWQ: an A followed by 9-15 letters and digits
+const SELLER_ID_PATTERN = /^A[A-Z0-9]{9,15}$/
+
+export function formatSellerId(input: string): string {
+  return input.trim().toUpperCase()
+}
+
+export function validateSellerId(sellerId: string): boolean {
+  return SELLER_ID_PATTERN.test(sellerId)
+}
+
+export interface SellerStorefront {
+  asins: string[]
+  // Storefront size Keepa last counted; can exceed asins when the list is truncated
+  total?: number
+}
+
+export interface SellerProfile {
+  sellerId: string
+  domainId: number
+  name: string
+  // Percent positive over the last 12 months
+  rating?: number
+  ratingCount?: number
+  ratingHistory: KeepaPoint[]
+  ratingCountHistory: KeepaPoint[]
+  storefront?: SellerStorefront
+}
+
+const known = (value: number | null | undefined) => (value == null || value < 0 ? undefined : value)
+
+export function buildSellerProfile(seller: KeepaSeller, domainId: number, storefront: boolean): SellerProfile {
+  const ratingHistory = decodeValueHistory(seller.csv?.[SELLER_RATING])
+  const ratingCountHistory = decodeValueHistory(seller.csv?.[SELLER_RATING_COUNT])
+  return {
+    sellerId: seller.sellerId,
+    domainId,
+    name: seller.sellerName || seller.sellerId,
+    rating: known(seller.currentRating) ?? known(lastKnownPoint(ratingHistory)?.value),
+    ratingCount: known(seller.currentRatingCount) ?? known(lastKnownPoint(ratingCountHistory)?.value),
+    ratingHistory,
+    ratingCountHistory,
+    storefront: storefront
+      ? {
+          asins: seller.asinList ?? [],
+          total: known(lastKnownPoint(decodeValueHistory(seller.totalStorefrontAsins))?.value),
+        }
+      : undefined,
+  }
+}
+
+export async function lookupSeller(
+  client: KeepaClient,
+  domainId: number,
+  sellerId: string,
+  storefront: boolean,
+): Promise<SellerProfile> {
+  const seller = await client.getSeller(domainId, sellerId, storefront)
+  return buildSellerProfile(seller, domainId, storefront)
+}
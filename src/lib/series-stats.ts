@@ -0,0 +1,97 @@
+import type { KeepaPoint } from './keepa/csv'
+
+export interface DateRange {
+  start?: Date
+  end?: Date
+}
+
+export interface SeriesSummary {
+  min: number
+  minDate: Date
+  max: number
+  maxDate: Date
+  average: number
+  median: number
+  // Number of values that fell inside the range, including the one carried in from before it
+  samples: number
+}
+
+/**
+ * Restricts a decoded series to a date range. Keepa values persist until the next change,
+ * so the last point before `start` is carried in and pinned to `start`.
+ */
+export function clipSeries(points: KeepaPoint[], range: DateRange): KeepaPoint[] {
+  const startMs = range.start?.getTime() ?? -Infinity
+  const endMs = range.end?.getTime() ?? Infinity
+  const clipped: KeepaPoint[] = []
+  let carried: KeepaPoint | undefined
+
+  for (const point of points) {
+    const ms = point.time.getTime()
+    if (ms < startMs) {
+      carried = point
+    } else if (ms <= endMs) {
+      clipped.push(point)
+    }
+  }
+
+  if (carried && range.start && (clipped.length === 0 || clipped[0].time.getTime() > startMs)) {
+    clipped.unshift({ ...carried, time: range.start })
+  }
+  return clipped
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+// Min/max/average/median over the non-gap values inside the range
+export function summarizeSeries(points: KeepaPoint[], range: DateRange = {}): SeriesSummary | undefined {
+  const valid = clipSeries(points, range).filter(
+    (point): point is KeepaPoint & { value: number } => point.value !== null && point.value > 0,
+  )
+  if (valid.length === 0) return undefined
+
+  let minPoint = valid[0]
+  let maxPoint = valid[0]
+  let total = 0
+  for (const point of valid) {
+    if (point.value < minPoint.value) minPoint = point
+    if (point.value > maxPoint.value) maxPoint = point
+    total += point.value
+  }
+
+  return {
+    min: minPoint.value,
+    minDate: minPoint.time,
+    max: maxPoint.value,
+    maxDate: maxPoint.time,
+    average: total / valid.length,
+    median: median(valid.map((point) => point.value)),
+    samples: valid.length,
+  }
+}
+
+/**
+ * Average weighted by how long each value was in effect, which is how Keepa computes its avgN stats.
+ * Gaps (no offer) are excluded from both the sum and the duration.
+ */
+export function timeWeightedAverage(points: KeepaPoint[], range: DateRange = {}, now = Date.now()): number | undefined {
+  const clipped = clipSeries(points, range)
+  const endMs = Math.min(range.end?.getTime() ?? now, now)
+  let weighted = 0
+  let duration = 0
+
+  clipped.forEach((point, i) => {
+    const next = clipped[i + 1]?.time.getTime() ?? endMs
+    const span = next - point.time.getTime()
+    if (point.value !== null && point.value > 0 && span > 0) {
+      weighted += point.value * span
+      duration += span
+    }
+  })
+
+  return duration > 0 ? weighted / duration : undefined
+}
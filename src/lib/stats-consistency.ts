@@ -0,0 +1,56 @@
+import { KEEPA_CSV_SERIES, KeepaCsvType, decodeSeries, latestPoint } from './keepa/csv'
+import type { KeepaProduct } from './keepa/schemas'
+import { statPoint, statValue } from './keepa/stats'
+import { lookbackStart, type LookbackWindow } from './lookback'
+import { summarizeSeries, timeWeightedAverage } from './series-stats'
+
+export interface ConsistencyRow {
+  series: string
+  metric: string
+  // Raw Keepa units (smallest currency unit, rank position)
+  server?: number
+  history?: number
+  ok: boolean
+}
+
+const CHECKED_SERIES = [
+  KeepaCsvType.AMAZON,
+  KeepaCsvType.NEW,
+  KeepaCsvType.BUY_BOX_SHIPPING,
+  KeepaCsvType.SALES_RANK,
+] as const
+
+// Keepa rounds averages, so allow one unit or 1%, whichever is larger
+const TOLERANCE = 0.01
+
+function agrees(server: number | undefined, history: number | undefined): boolean {
+  if (server === undefined || history === undefined) return server === history
+  return Math.abs(server - history) <= Math.max(1, Math.abs(server) * TOLERANCE)
+}
+
+/**
+ * Debug aid: recomputes Keepa's interval stats from the decoded history and reports where they disagree.
+ * Only meaningful when the product was fetched with `stats` set to the same window as `since`.
+ */
+export function checkStatsConsistency(product: KeepaProduct, window: LookbackWindow, now = Date.now()): ConsistencyRow[] {
+  const start = lookbackStart(window, now)
+  const rows: ConsistencyRow[] = []
+
+  for (const type of CHECKED_SERIES) {
+    const series = KEEPA_CSV_SERIES[type].label
+    const points = decodeSeries(product, type)
+    const summary = summarizeSeries(points, { start })
+    const pairs: [string, number | undefined, number | undefined][] = [
+      ['Current', statValue(product.stats, 'current', type), latestPoint(points)?.value ?? undefined],
+      ['Min in window', statPoint(product.stats, 'minInInterval', type)?.value ?? undefined, summary?.min],
+      ['Max in window', statPoint(product.stats, 'maxInInterval', type)?.value ?? undefined, summary?.max],
+      ['Average in window', statValue(product.stats, 'avg', type), timeWeightedAverage(points, { start }, now)],
+    ]
+    for (const [metric, server, history] of pairs) {
+      if (server === undefined && history === undefined) continue
+      rows.push({ series, metric, server, history, ok: agrees(server, history) })
+    }
+  }
+
+  return rows
+}
@@ -0,0 +1,121 @@
+import { KEEPA_MAX_ASINS_PER_REQUEST, type KeepaClient } from './keepa/client'
+import { KeepaCsvType, decodeCountSeries, lastKnownPoint } from './keepa/csv'
+import type { KeepaProduct } from './keepa/schemas'
+import { lookbackDays, lookbackStart, type LookbackWindow } from './lookback'
+import { buildSalesRankData, hasProductData } from './sales-rank'
+
+export interface VariationChild {
+  asin: string
+  // Dimension name to value, e.g. { Color: 'Red', Size: 'M' }
+  attributes: Record<string, string>
+}
+
+export interface VariationFamily {
+  parentAsin?: string
+  children: VariationChild[]
+}
+
+export interface VariationStats {
+  asin: string
+  salesRank?: number
+  price?: number
+  offerCount?: number
+  reviewCount?: number
+}
+
+export interface VariationMatrix {
+  rowDimension?: string
+  // Remaining dimensions, joined with " / " when there are more than two
+  columnDimension?: string
+  rows: string[]
+  columns: string[]
+  // Child ASINs per `${row}\n${column}`; more than one when children share every attribute value
+  cells: Map<string, string[]>
+}
+
+const NO_VALUE = '—'
+
+export const cellKey = (row: string, column: string) => `${row}\n${column}`
+
+// Family as far as this product knows it; children may only carry parentAsin, without the sibling list
+export function variationFamily(product: KeepaProduct): VariationFamily | undefined {
+  const children = (product.variations ?? []).map((child) => ({
+    asin: child.asin,
+    attributes: Object.fromEntries((child.attributes ?? []).map((a) => [a.dimension, a.value])),
+  }))
+  if (children.length === 0 && !product.parentAsin) return undefined
+  return { parentAsin: product.parentAsin ?? undefined, children }
+}
+
+/**
+ * Lays children out on their first dimension (rows) against the rest (columns), keeping the
+ * order Keepa lists them in. Single-dimension families get one column, and children Keepa lists
+ * with the same attribute values are kept together in one cell rather than dropped.
+ */
+export function buildVariationMatrix(children: VariationChild[]): VariationMatrix {
+  const dimensions = [...new Set(children.flatMap((child) => Object.keys(child.attributes)))]
+  const [rowDimension, ...columnDimensions] = dimensions
+  const rows: string[] = []
+  const columns: string[] = []
+  const cells = new Map<string, string[]>()
+
+  for (const child of children) {
+    const row = rowDimension ? child.attributes[rowDimension] ?? NO_VALUE : child.asin
+    const column = columnDimensions.map((d) => child.attributes[d] ?? NO_VALUE).join(' / ')
+    if (!rows.includes(row)) rows.push(row)
+    if (!columns.includes(column)) columns.push(column)
+    const key = cellKey(row, column)
+    cells.set(key, [...(cells.get(key) ?? []), child.asin])
+  }
+
+  return {
+    rowDimension,
+    columnDimension: columnDimensions.length > 0 ? columnDimensions.join(' / ') : undefined,
+    rows,
+    columns,
+    cells,
+  }
+}
+
+export function buildVariationStats(product: KeepaProduct, window: LookbackWindow): VariationStats {
+  const data = buildSalesRankData(product.asin, product, window)
+  return {
+    asin: product.asin,
+    salesRank: data.salesRank,
+    price: data.price,
+    offerCount: lastKnownPoint(decodeCountSeries(product, KeepaCsvType.COUNT_NEW))?.value ?? undefined,
+    reviewCount: lastKnownPoint(decodeCountSeries(product, KeepaCsvType.COUNT_REVIEWS))?.value ?? undefined,
+  }
+}
+
+/**
+ * Loads the whole family for a product: the parent is fetched only when the product itself
+ * doesn't list its siblings, then every child is fetched (one token each) for its stats.
+ */
+export async function fetchVariationFamily(
+  client: KeepaClient,
+  product: KeepaProduct,
+  window: LookbackWindow,
+): Promise<{ family: VariationFamily, stats: Record<string, VariationStats> }> {
+  let family = variationFamily(product) ?? { children: [] }
+  if (family.children.length === 0 && family.parentAsin) {
+    const parent = await client.getProduct(family.parentAsin, { domain: product.domainId, history: false })
+    family = { parentAsin: family.parentAsin, children: variationFamily(parent)?.children ?? [] }
+  }
+
+  const stats: Record<string, VariationStats> = {}
+  const asins = family.children.map((child) => child.asin)
+  for (let i = 0; i < asins.length; i += KEEPA_MAX_ASINS_PER_REQUEST) {
+    const response = await client.getProducts({
+      domain: product.domainId,
+      asins: asins.slice(i, i + KEEPA_MAX_ASINS_PER_REQUEST),
+      since: lookbackStart(window),
+      stats: lookbackDays(window),
+    })
+    for (const child of response.products.filter(hasProductData)) {
+      stats[child.asin] = buildVariationStats(child, window)
+    }
+  }
+
+  return { family, stats }
+}